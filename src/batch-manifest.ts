@@ -0,0 +1,140 @@
+/**
+ * Batch Manifest
+ *
+ * Reads batch generation manifests:
+ * - CSV with a header row (quoted fields, embedded commas/newlines)
+ * - JSONL with one request object per line
+ *
+ * Recognised columns: prompt, template, type, output (or output_path /
+ * outputPath), provider, model, aspect_ratio, resolution. Relative output
+ * paths resolve against the manifest's directory.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BatchRow } from './types';
+
+const COLUMN_ALIASES: Record<string, keyof BatchRow> = {
+  prompt: 'prompt',
+  template: 'template',
+  type: 'type',
+  output: 'outputPath',
+  output_path: 'outputPath',
+  outputpath: 'outputPath',
+  provider: 'provider',
+  model: 'model',
+  aspect_ratio: 'aspectRatio',
+  aspectratio: 'aspectRatio',
+  resolution: 'resolution'
+};
+
+const RESOLUTIONS = ['1K', '2K', '4K'];
+
+/**
+ * Load a manifest (format chosen by extension: .jsonl / .ndjson or .csv)
+ */
+export function loadBatchManifest(manifestPath: string): BatchRow[] {
+  const content = fs.readFileSync(manifestPath, 'utf-8').replace(/^\uFEFF/, '');
+  const extension = path.extname(manifestPath).toLowerCase();
+
+  let records: Array<Record<string, unknown>>;
+  if (extension === '.jsonl' || extension === '.ndjson') {
+    records = parseJsonl(content);
+  } else if (extension === '.csv') {
+    records = parseCsv(content);
+  } else {
+    throw new Error(`Unsupported manifest format: ${extension || '(none)'} (expected .csv or .jsonl)`);
+  }
+
+  return records.map((record, index) => toBatchRow(record, index + 1));
+}
+
+/**
+ * Map a raw record to a batch row (column names are case-insensitive)
+ */
+function toBatchRow(record: Record<string, unknown>, rowNumber: number): BatchRow {
+  const row: Partial<Record<keyof BatchRow, string>> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    const field = COLUMN_ALIASES[key.trim().toLowerCase()];
+    if (field && value !== undefined && value !== null && String(value).trim() !== '') {
+      row[field] = String(value).trim();
+    }
+  }
+
+  if (!row.prompt) {
+    throw new Error(`Manifest row ${rowNumber} has no prompt`);
+  }
+
+  if (row.resolution && !RESOLUTIONS.includes(row.resolution.toUpperCase())) {
+    throw new Error(`Manifest row ${rowNumber} has an invalid resolution: ${row.resolution} (expected 1K, 2K or 4K)`);
+  }
+
+  return { ...row, resolution: row.resolution?.toUpperCase() } as BatchRow;
+}
+
+function parseJsonl(content: string): Array<Record<string, unknown>> {
+  const records: Array<Record<string, unknown>> = [];
+
+  content.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      records.push(JSON.parse(line));
+    } catch (error) {
+      throw new Error(`Invalid JSON on manifest line ${index + 1}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+
+  return records;
+}
+
+/**
+ * Parse CSV (RFC 4180 quoting) into records keyed by the header row
+ */
+function parseCsv(content: string): Array<Record<string, unknown>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter(r => r.some(value => value.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    return [];
+  }
+
+  const [header, ...data] = nonEmpty;
+  return data.map(values => Object.fromEntries(header.map((column, i) => [column, values[i]])));
+}
@@ -0,0 +1,186 @@
+/**
+ * Built-in Provider Registrations
+ *
+ * Gemini, Vertex AI, OpenRouter, OpenAI-compatible gateways, self-hosted
+ * Stable Diffusion (Automatic1111 / ComfyUI) and the offline mock, registered
+ * with the provider registry at load time. Third-party backends use the same shape via
+ * registerProvider().
+ */
+
+import * as fs from 'fs';
+import { ProviderRegistration } from './types';
+import { GEMINI_ASPECT_RATIOS, GeminiAdapter, VertexAIAdapter } from './gemini-adapter';
+import { OpenRouterAdapter } from './openrouter-adapter';
+import { OpenAICompatibleAdapter } from './openai-compatible-adapter';
+import { Automatic1111Adapter, ComfyUIAdapter } from './stable-diffusion-adapter';
+import { MockAdapter } from './mock-adapter';
+
+export const BUILTIN_PROVIDERS: ProviderRegistration[] = [
+  {
+    name: 'gemini',
+    capabilities: {
+      aspectRatios: GEMINI_ASPECT_RATIOS,
+      editing: true,
+      seeds: true
+    },
+    createAdapter: () => new GeminiAdapter(),
+    discoverFromEnv(env) {
+      const apiKey = env.GOOGLE_API_KEY || env.GOOGLE_GENERATIVE_AI_API_KEY;
+      if (!apiKey) return null;
+      return {
+        name: 'gemini',
+        apiKey,
+        model: env.GEMINI_MODEL || 'gemini-3-pro-image-preview',
+        priority: 1,
+        enabled: true
+      };
+    },
+    validateCredentials(provider) {
+      return provider.apiKey ? null : 'API key not configured';
+    },
+    legacyEnv(provider) {
+      return { GOOGLE_API_KEY: provider.apiKey || '' };
+    }
+  },
+  {
+    name: 'vertexai',
+    capabilities: {
+      aspectRatios: GEMINI_ASPECT_RATIOS,
+      editing: true,
+      seeds: true
+    },
+    createAdapter: () => new VertexAIAdapter(),
+    discoverFromEnv(env) {
+      const project = env.GOOGLE_CLOUD_PROJECT || env.VERTEX_PROJECT;
+      if (!project) return null;
+      return {
+        name: 'vertexai',
+        apiKey: env.VERTEX_ACCESS_TOKEN || env.GOOGLE_CLOUD_ACCESS_TOKEN || '',
+        model: env.VERTEX_MODEL || 'gemini-3-pro-image-preview',
+        project,
+        location: env.GOOGLE_CLOUD_LOCATION || env.VERTEX_LOCATION || 'global',
+        priority: 2,
+        enabled: true
+      };
+    },
+    validateCredentials(provider) {
+      return provider.project || process.env.GOOGLE_CLOUD_PROJECT ? null : 'GOOGLE_CLOUD_PROJECT not configured';
+    },
+    legacyEnv(provider, env) {
+      return {
+        GOOGLE_CLOUD_PROJECT: provider.project || env.GOOGLE_CLOUD_PROJECT || '',
+        GOOGLE_CLOUD_LOCATION: provider.location || env.GOOGLE_CLOUD_LOCATION || 'global',
+        GOOGLE_GENAI_USE_VERTEXAI: 'true'
+      };
+    }
+  },
+  {
+    name: 'openrouter',
+    capabilities: {
+      aspectRatios: GEMINI_ASPECT_RATIOS,
+      editing: true,
+      seeds: true
+    },
+    createAdapter: () => new OpenRouterAdapter(),
+    discoverFromEnv(env) {
+      if (!env.OPENROUTER_API_KEY) return null;
+      return {
+        name: 'openrouter',
+        apiKey: env.OPENROUTER_API_KEY,
+        model: env.OPENROUTER_MODEL || 'google/gemini-3-pro-image-preview',
+        priority: 3,
+        enabled: true
+      };
+    },
+    validateCredentials(provider) {
+      return provider.apiKey ? null : 'API key not configured';
+    },
+    legacyEnv(provider) {
+      return { OPENROUTER_API_KEY: provider.apiKey || '' };
+    }
+  },
+  {
+    name: 'openai-compatible',
+    capabilities: {
+      editing: true
+    },
+    createAdapter: () => new OpenAICompatibleAdapter(),
+    discoverFromEnv(env) {
+      if (!env.OPENAI_COMPATIBLE_BASE_URL) return null;
+      return {
+        name: 'openai-compatible',
+        apiKey: env.OPENAI_COMPATIBLE_API_KEY || '',
+        baseUrl: env.OPENAI_COMPATIBLE_BASE_URL,
+        model: env.OPENAI_COMPATIBLE_MODEL || 'gpt-image-1',
+        priority: 4,
+        enabled: true
+      };
+    },
+    validateCredentials(provider) {
+      return provider.baseUrl ? null : 'baseUrl not configured';
+    }
+  },
+  {
+    name: 'automatic1111',
+    capabilities: {
+      editing: true,
+      seeds: true
+    },
+    createAdapter: () => new Automatic1111Adapter(),
+    discoverFromEnv(env) {
+      if (!env.A1111_BASE_URL) return null;
+      return {
+        name: 'automatic1111',
+        baseUrl: env.A1111_BASE_URL,
+        model: env.A1111_MODEL,
+        priority: 0,
+        enabled: true
+      };
+    },
+    validateCredentials(provider) {
+      return provider.baseUrl ? null : 'baseUrl not configured';
+    }
+  },
+  {
+    name: 'comfyui',
+    capabilities: {
+      editing: false,
+      seeds: true
+    },
+    createAdapter: logger => new ComfyUIAdapter(logger),
+    discoverFromEnv(env) {
+      if (!env.COMFYUI_BASE_URL) return null;
+      return {
+        name: 'comfyui',
+        baseUrl: env.COMFYUI_BASE_URL,
+        workflowPath: env.COMFYUI_WORKFLOW,
+        priority: 0,
+        enabled: true
+      };
+    },
+    validateCredentials(provider) {
+      if (!provider.baseUrl) return 'baseUrl not configured';
+      if (!provider.workflowPath || !fs.existsSync(provider.workflowPath)) {
+        return `Workflow template not found: ${provider.workflowPath || '(workflowPath not set)'}`;
+      }
+      return null;
+    }
+  },
+  {
+    name: 'mock',
+    capabilities: {
+      editing: true,
+      seeds: true
+    },
+    createAdapter: () => new MockAdapter(),
+    discoverFromEnv(env) {
+      if (env.CREATE_IMAGE_MOCK !== '1' && env.CREATE_IMAGE_MOCK !== 'true') return null;
+      return {
+        name: 'mock',
+        model: 'mock-placeholder',
+        priority: 0,
+        enabled: true
+      };
+    }
+  }
+];
@@ -0,0 +1,105 @@
+/**
+ * Cancellation
+ *
+ * AbortSignal plumbing for generation:
+ * - Combines a caller's signal with an optional timeout
+ * - Tells cancellation apart from timeouts (GenerationAbortedError)
+ * - Abort-aware waiting for promises that do not take a signal
+ */
+
+export type AbortKind = 'cancelled' | 'timed-out';
+
+export class GenerationAbortedError extends Error {
+  readonly kind: AbortKind;
+
+  constructor(kind: AbortKind, message: string) {
+    super(message);
+    this.name = 'GenerationAbortedError';
+    this.kind = kind;
+  }
+}
+
+export interface GenerationSignal {
+  signal?: AbortSignal;
+  dispose(): void;
+}
+
+/**
+ * Combine a caller's signal with a timeout (call dispose() when done)
+ */
+export function createGenerationSignal(signal?: AbortSignal, timeoutMs?: number): GenerationSignal {
+  if (!signal && !timeoutMs) {
+    return { signal: undefined, dispose: () => undefined };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(abortReason(signal!));
+
+  let timer: NodeJS.Timeout | undefined;
+  if (timeoutMs) {
+    timer = setTimeout(() => {
+      controller.abort(new GenerationAbortedError('timed-out', `Generation timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  }
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    dispose() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+}
+
+/**
+ * Why a signal was aborted (AbortSignal.timeout() counts as a timeout)
+ */
+export function abortReason(signal: AbortSignal): GenerationAbortedError {
+  const reason = signal.reason;
+  if (reason instanceof GenerationAbortedError) {
+    return reason;
+  }
+  if (reason instanceof Error && reason.name === 'TimeoutError') {
+    return new GenerationAbortedError('timed-out', 'Generation timed out');
+  }
+  return new GenerationAbortedError('cancelled', 'Generation cancelled');
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortReason(signal);
+  }
+}
+
+/**
+ * Wait for a promise, rejecting early if the signal aborts
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(abortReason(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
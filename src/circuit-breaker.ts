@@ -0,0 +1,92 @@
+/**
+ * Circuit Breaker
+ *
+ * Stops sending generations to a provider that keeps failing:
+ * - closed: requests flow normally
+ * - open: after N consecutive failures, requests are rejected until the cooldown ends
+ * - half-open: after the cooldown, one trial request decides whether to close or re-open
+ */
+
+import { CircuitState } from './types';
+
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private consecutiveFailures: number = 0;
+  private openedAt?: number;
+  private trialInFlight: boolean = false;
+
+  constructor(failureThreshold: number = 3, cooldownMs: number = 60000) {
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  /**
+   * Current state (open moves to half-open once the cooldown has passed)
+   */
+  getState(): CircuitState {
+    if (this.openedAt === undefined) {
+      return 'closed';
+    }
+    return Date.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Whether a request may be sent now (claims the single half-open trial)
+   */
+  canAttempt(): boolean {
+    const state = this.getState();
+
+    if (state === 'closed') {
+      return true;
+    }
+
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Milliseconds until an open circuit becomes half-open
+   */
+  getRetryInMs(): number {
+    if (this.openedAt === undefined) {
+      return 0;
+    }
+    return Math.max(0, this.openedAt + this.cooldownMs - Date.now());
+  }
+
+  getConsecutiveFailures(): number {
+    return this.consecutiveFailures;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+
+    // A failed half-open trial re-opens immediately; otherwise open at the threshold
+    if (this.trialInFlight || this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Give up a claimed half-open trial without an outcome (e.g. the request was cancelled)
+   */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  reset(): void {
+    this.recordSuccess();
+  }
+}
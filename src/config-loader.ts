@@ -11,15 +11,24 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { GlobalConfig, ProviderConfig, PluginContext } from './types';
+import { listProviderRegistrations } from './provider-registry';
+import { Logger, defaultLogger, registerSecret } from './logger';
+
+interface YAMLLine {
+  indent: number;
+  text: string;
+}
 
 export class ConfigLoader {
   private context: PluginContext;
   private configPath: string;
   private cachedConfig?: GlobalConfig;
+  private logger: Logger;
 
   constructor(context: PluginContext) {
     this.context = context;
     this.configPath = path.join(context.configDir, 'config.yaml');
+    this.logger = (context.logger || defaultLogger()).child('ConfigLoader');
   }
 
   /**
@@ -38,7 +47,13 @@ export class ConfigLoader {
       providers: [],
       autoFallback: true,
       cacheEnabled: true,
-      cacheTTL: 3600000 // 1 hour
+      cacheTTL: 3600000, // 1 hour
+      healthProbes: true,
+      probeTimeoutMs: 10000,
+      circuitBreaker: {
+        failureThreshold: 3,
+        cooldownMs: 60000 // 1 minute
+      }
     };
 
     // Load from YAML file if exists
@@ -47,7 +62,7 @@ export class ConfigLoader {
         const yamlConfig = this.loadYAMLConfig(this.configPath);
         Object.assign(config, yamlConfig);
       } catch (error) {
-        console.warn(`Failed to load config from ${this.configPath}:`, error);
+        this.logger.warn(`Failed to load config from ${this.configPath}`, error);
       }
     }
 
@@ -55,6 +70,11 @@ export class ConfigLoader {
     const envProviders = this.discoverProvidersFromEnv();
     config.providers = this.mergeProviders(config.providers, envProviders);
 
+    // Keys from config.yaml are redacted from logs like the environment's
+    for (const provider of config.providers) {
+      registerSecret(provider.apiKey);
+    }
+
     // Set default provider to first available if not set
     if (config.providers.length > 0 && !config.providers.find(p => p.name === config.defaultProvider)) {
       config.defaultProvider = config.providers[0].name;
@@ -72,71 +92,121 @@ export class ConfigLoader {
     const content = fs.readFileSync(filePath, 'utf-8');
 
     // Simple YAML parser for our config structure
-    // Supports basic key-value pairs and nested objects
-    const config: any = {};
-    const lines = content.split('\n');
-    let currentSection: any = null;
-    let currentArray: any[] | null = null;
-    let currentKey: string | null = null;
-
-    for (const line of lines) {
-      const trimmed = line.trim();
+    // Supports key-value pairs, nested objects and lists (of scalars or objects)
+    const lines: YAMLLine[] = [];
+    for (const raw of content.split('\n')) {
+      const text = this.stripComment(raw).trim();
 
       // Skip empty lines and comments
-      if (!trimmed || trimmed.startsWith('#')) {
+      if (!text) {
         continue;
       }
 
-      // Handle top-level keys
-      if (trimmed.match(/^[a-zA-Z_][a-zA-Z0-9_]*:/)) {
-        const [key, ...valueParts] = trimmed.split(':');
-        const value = valueParts.join(':').trim();
-
-        if (value) {
-          // Simple key-value
-          config[key] = this.parseValue(value);
-          currentSection = null;
-          currentArray = null;
-          currentKey = null;
-        } else {
-          // Section start
-          currentKey = key;
-          currentSection = {};
-          config[key] = currentSection;
-          currentArray = null;
-        }
+      lines.push({ indent: raw.search(/\S/), text });
+    }
+
+    if (lines.length === 0) {
+      return {};
+    }
+
+    const [config] = this.parseBlock(lines, 0, lines[0].indent);
+    return config;
+  }
+
+  /**
+   * Parse a block of lines at the given indentation (object or list)
+   */
+  private parseBlock(lines: YAMLLine[], start: number, indent: number): [any, number] {
+    if (this.isListItem(lines[start].text)) {
+      return this.parseList(lines, start, indent);
+    }
+
+    const section: any = {};
+    let i = start;
+
+    while (i < lines.length && lines[i].indent === indent && !this.isListItem(lines[i].text)) {
+      const match = lines[i].text.match(/^("[^"]*"|'[^']*'|[^\s:][^:]*?)\s*:(?:\s+(.*))?$/);
+      i++;
+
+      if (!match) {
+        continue;
       }
-      // Handle array items
-      else if (trimmed.startsWith('- ')) {
-        if (currentKey && !currentArray) {
-          currentArray = [];
-          config[currentKey] = currentArray;
-        }
-        if (currentArray) {
-          const item = trimmed.substring(2).trim();
-          if (item.includes(':')) {
-            // Object in array
-            const obj: any = {};
-            const [k, ...v] = item.split(':');
-            obj[k.trim()] = this.parseValue(v.join(':').trim());
-            currentArray.push(obj);
-          } else {
-            currentArray.push(this.parseValue(item));
-          }
-        }
+
+      const key = this.parseValue(match[1]);
+      const value = match[2]?.trim();
+
+      if (value) {
+        // Simple key-value
+        section[key] = this.parseValue(value);
+      } else if (
+        i < lines.length &&
+        (lines[i].indent > indent || (lines[i].indent === indent && this.isListItem(lines[i].text)))
+      ) {
+        // Nested section or list
+        const [child, next] = this.parseBlock(lines, i, lines[i].indent);
+        section[key] = child;
+        i = next;
+      } else {
+        // Empty section
+        section[key] = {};
+      }
+    }
+
+    return [section, i];
+  }
+
+  /**
+   * Parse list items at the given indentation
+   */
+  private parseList(lines: YAMLLine[], start: number, indent: number): [any[], number] {
+    const list: any[] = [];
+    let i = start;
+
+    while (i < lines.length && lines[i].indent === indent && this.isListItem(lines[i].text)) {
+      const item = lines[i].text.replace(/^-\s*/, '');
+
+      if (!/^("[^"]*"|'[^']*'|[^\s:][^:]*?)\s*:(\s|$)/.test(item)) {
+        // Scalar item
+        list.push(this.parseValue(item));
+        i++;
+        continue;
       }
-      // Handle nested properties
-      else if (trimmed.match(/^\s+[a-zA-Z_]/)) {
-        const [key, ...valueParts] = trimmed.split(':');
-        const value = valueParts.join(':').trim();
-
-        if (currentSection && value) {
-          currentSection[key.trim()] = this.parseValue(value);
-        }
+
+      // Object item: re-read the text after "- " as the first key of a nested block
+      const itemIndent = indent + lines[i].text.length - item.length;
+      const itemLines = [...lines];
+      itemLines[i] = { indent: itemIndent, text: item };
+
+      const [obj, next] = this.parseBlock(itemLines, i, itemIndent);
+      list.push(obj);
+      i = next;
+    }
+
+    return [list, i];
+  }
+
+  private isListItem(text: string): boolean {
+    return text === '-' || text.startsWith('- ');
+  }
+
+  /**
+   * Remove a trailing comment (outside of quotes)
+   */
+  private stripComment(line: string): string {
+    let quote: string | null = null;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+        return line.slice(0, i);
       }
     }
 
-    return config;
+    return line;
   }
 
   /**
@@ -162,6 +232,12 @@ export class ConfigLoader {
       return trimmed.slice(1, -1);
     }
 
+    // Inline list: [a, b, c]
+    if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
+      const inner = trimmed.slice(1, -1).trim();
+      return inner ? inner.split(',').map(item => this.parseValue(item)) : [];
+    }
+
     return trimmed;
   }
 
@@ -170,41 +246,12 @@ export class ConfigLoader {
    */
   private discoverProvidersFromEnv(): ProviderConfig[] {
     const providers: ProviderConfig[] = [];
-    const env = process.env;
-
-    // Gemini
-    if (env.GOOGLE_API_KEY || env.GOOGLE_GENERATIVE_AI_API_KEY) {
-      providers.push({
-        name: 'gemini',
-        apiKey: env.GOOGLE_API_KEY || env.GOOGLE_GENERATIVE_AI_API_KEY || '',
-        model: env.GEMINI_MODEL || 'gemini-3-pro-image-preview',
-        priority: 1,
-        enabled: true
-      });
-    }
 
-    // Vertex AI
-    if (env.GOOGLE_CLOUD_PROJECT || env.VERTEX_PROJECT) {
-      providers.push({
-        name: 'vertexai',
-        apiKey: '',
-        model: env.VERTEX_MODEL || 'gemini-3-pro-image-preview',
-        project: env.GOOGLE_CLOUD_PROJECT || env.VERTEX_PROJECT,
-        location: env.GOOGLE_CLOUD_LOCATION || env.VERTEX_LOCATION || 'global',
-        priority: 2,
-        enabled: true
-      });
-    }
-
-    // OpenRouter
-    if (env.OPENROUTER_API_KEY) {
-      providers.push({
-        name: 'openrouter',
-        apiKey: env.OPENROUTER_API_KEY,
-        model: env.OPENROUTER_MODEL || 'google/gemini-3-pro-image-preview',
-        priority: 3,
-        enabled: true
-      });
+    for (const registration of listProviderRegistrations()) {
+      const provider = registration.discoverFromEnv?.(process.env);
+      if (provider) {
+        providers.push(provider);
+      }
     }
 
     return providers;
@@ -288,15 +335,76 @@ repositoryPath: ${path.join(os.homedir(), 'Documents', 'github', 'image-generato
 # Default provider to use (gemini, openrouter, vertexai)
 defaultProvider: gemini
 
+# Root for generated files without an outputPath (default: working directory)
+# outputDir: ~/Pictures/create-image
+
+# File name pattern under outputDir (default: {slug(prompt)}.{ext})
+# outputPattern: "{template}/{date}/{slug(prompt)}-{n}.{ext}"
+
 # Enable automatic fallback to other providers on failure
 autoFallback: true
 
+# Whether each error class moves on to the next provider
+# (auth, quota, safety, invalid-request, timeout, transient, unknown)
+fallbackPolicy:
+  safety: false
+  invalid-request: false
+
+# Estimated prices (USD) for cost tracking; the most specific entry wins
+# Usage is recorded in ~/.config/create-image/usage.jsonl
+# pricing:
+#   - provider: gemini
+#     costPerImage: 0.134
+#   - provider: gemini
+#     resolution: 4K
+#     costPerImage: 0.24
+#   - provider: openrouter
+#     inputCostPerMillion: 2
+#     outputCostPerMillion: 120
+
+# Spend limits per provider (daily or monthly)
+# budgets:
+#   - provider: gemini
+#     period: daily
+#     limit: 5
+
+# When a provider's budget is exhausted: skip it in the fallback chain,
+# or refuse requests that would use it as primary
+onBudgetExhausted: skip
+
+# Per-provider request rate and concurrency limits (shared with style
+# reference grid generation, which uses the "gemini" limits)
+# rateLimits:
+#   - provider: gemini
+#     requestsPerMinute: 20
+#     burst: 2
+#     maxConcurrency: 2
+
+# Reuse the stored image for identical requests instead of paying again
+# (off by default; evicts entries older than maxAgeMs, then the least
+# recently used until under maxSizeMb)
+# resultCache:
+#   enabled: true
+#   maxSizeMb: 500
+#   maxAgeMs: 2592000000  # 30 days
+
 # Enable template caching (faster subsequent loads)
 cacheEnabled: true
 
 # Cache TTL in milliseconds (default: 1 hour)
 cacheTTL: 3600000
 
+# Probe provider APIs (models list / token validation) during health checks
+healthProbes: true
+
+# Give up on a health probe after this long and mark the provider unhealthy
+probeTimeoutMs: 10000
+
+# Stop trying a provider after consecutive failures, retry after the cooldown
+circuitBreaker:
+  failureThreshold: 3
+  cooldownMs: 60000
+
 # Default template to use if none specified
 # defaultTemplate: sports/illustrative
 
@@ -317,9 +425,47 @@ cacheTTL: 3600000
 #   - name: vertexai
 #     project: your_gcp_project_id
 #     location: global
+#     apiKey: your_access_token  # Or use VERTEX_ACCESS_TOKEN env var
 #     model: gemini-3-pro-image-preview
 #     priority: 2
 #     enabled: true
+#
+#   - name: studio-gateway          # Any gateway speaking the OpenAI Images API
+#     type: openai-compatible
+#     baseUrl: https://images.example.com/v1
+#     apiKey: your_key_here
+#     model: gpt-image-1
+#     responseFormat: b64_json      # or url
+#     headers:
+#       X-Team: design
+#     priority: 4
+#     enabled: true
+#
+#   - name: gpu-box                 # Self-hosted ComfyUI (or type: automatic1111)
+#     type: comfyui
+#     baseUrl: http://gpu-box.local:8188
+#     workflowPath: ${path.join(configDir, 'workflows', 'sdxl.json')}
+#     width: 1024
+#     height: 1024
+#     steps: 30
+#     pollIntervalMs: 1000
+#     timeoutMs: 300000
+#     priority: 0                   # Try before cloud providers
+#     enabled: true
+#
+#   - name: mock                    # Offline placeholder images (or CREATE_IMAGE_MOCK=1)
+#     width: 512
+#     height: 512
+#     simulateError: quota          # quota, timeout, safety, ... to exercise fallback
+#     simulateErrorCount: 1         # Only fail the first N calls
+#     latencyMs: 200
+#     priority: 0
+#     enabled: true
+
+# Per-provider adapter options:
+#   adapter: legacy-cli   # Spawn scripts/generate.js instead of calling the API in-process
+#   baseUrl: http://localhost:8080  # Override the API endpoint (e.g. a local stand-in)
+#   type: gemini          # Registered provider type, when the name differs
 
 # Notes:
 # - API keys from environment variables take precedence
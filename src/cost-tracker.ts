@@ -0,0 +1,192 @@
+/**
+ * Cost Tracker
+ *
+ * Records every successful generation with its estimated cost and
+ * enforces per-provider budgets:
+ * - Price table from config (per image and/or per million tokens,
+ *   optionally per model and resolution tier)
+ * - Usage log persisted to {configDir}/usage.jsonl
+ * - Daily / monthly budgets per provider
+ * - Spend reports by provider and template
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  BudgetConfig,
+  CostBreakdown,
+  CostReport,
+  GlobalConfig,
+  PriceEntry,
+  ProviderUsage,
+  UsageRecord
+} from './types';
+import { Logger, defaultLogger } from './logger';
+
+export class CostTracker {
+  private usagePath: string;
+  private pricing: PriceEntry[];
+  private budgets: BudgetConfig[];
+  private records?: UsageRecord[];
+  private logger: Logger;
+
+  constructor(
+    configDir: string,
+    config: Pick<GlobalConfig, 'pricing' | 'budgets'> = {},
+    logger: Logger = defaultLogger()
+  ) {
+    this.usagePath = path.join(configDir, 'usage.jsonl');
+    this.pricing = config.pricing || [];
+    this.budgets = config.budgets || [];
+    this.logger = logger.child('CostTracker');
+  }
+
+  /**
+   * Resolution tier used for pricing (1K / 2K / 4K by longest side)
+   */
+  static resolutionTier(width?: number, height?: number): string {
+    if (!width || !height) return 'unknown';
+    const longest = Math.max(width, height);
+    if (longest <= 1024) return '1K';
+    if (longest <= 2048) return '2K';
+    return '4K';
+  }
+
+  /**
+   * Estimate the cost of a generation from the price table
+   * The most specific matching entry wins (provider + model + resolution)
+   */
+  estimateCost(provider: string, model: string, resolution: string, usage?: ProviderUsage): number {
+    const price = this.pricing
+      .filter(entry =>
+        entry.provider === provider &&
+        (!entry.model || entry.model === model) &&
+        (!entry.resolution || entry.resolution === resolution)
+      )
+      .sort((a, b) => this.specificity(b) - this.specificity(a))[0];
+
+    if (!price) {
+      return 0;
+    }
+
+    return (price.costPerImage || 0) +
+      ((usage?.inputTokens || 0) * (price.inputCostPerMillion || 0)) / 1000000 +
+      ((usage?.outputTokens || 0) * (price.outputCostPerMillion || 0)) / 1000000;
+  }
+
+  /**
+   * Record a successful generation (cost is estimated from the price table)
+   */
+  record(entry: Omit<UsageRecord, 'timestamp' | 'cost'>): UsageRecord {
+    const records = this.loadRecords();
+    const record: UsageRecord = {
+      timestamp: new Date().toISOString(),
+      ...entry,
+      cost: this.estimateCost(entry.provider, entry.model, entry.resolution, entry.usage)
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(this.usagePath), { recursive: true });
+      fs.appendFileSync(this.usagePath, JSON.stringify(record) + '\n', 'utf-8');
+    } catch (error) {
+      this.logger.error('Failed to persist usage record', error);
+    }
+
+    records.push(record);
+    return record;
+  }
+
+  /**
+   * Total spend for a provider since a point in time
+   */
+  getSpend(provider: string, since: Date): number {
+    const sinceTime = since.getTime();
+    return this.loadRecords()
+      .filter(r => r.provider === provider && Date.parse(r.timestamp) >= sinceTime)
+      .reduce((sum, r) => sum + r.cost, 0);
+  }
+
+  /**
+   * First budget a provider has exhausted in its current period, if any
+   */
+  getExhaustedBudget(provider: string): BudgetConfig | null {
+    for (const budget of this.budgets) {
+      if (budget.provider === provider && this.getSpend(provider, this.periodStart(budget.period)) >= budget.limit) {
+        return budget;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Spend broken down by provider and template
+   */
+  getReport(options: { since?: Date; until?: Date } = {}): CostReport {
+    const since = options.since?.getTime() ?? -Infinity;
+    const until = options.until?.getTime() ?? Infinity;
+
+    const report: CostReport = {
+      since: options.since?.toISOString(),
+      until: options.until?.toISOString(),
+      totalCount: 0,
+      totalCost: 0,
+      byProvider: {},
+      byTemplate: {}
+    };
+
+    for (const record of this.loadRecords()) {
+      const time = Date.parse(record.timestamp);
+      if (time < since || time > until) continue;
+
+      report.totalCount++;
+      report.totalCost += record.cost;
+      this.addTo(report.byProvider, record.provider, record.cost);
+      this.addTo(report.byTemplate, record.template || 'none', record.cost);
+    }
+
+    return report;
+  }
+
+  /**
+   * Start of the current budget period (local time)
+   */
+  private periodStart(period: BudgetConfig['period']): Date {
+    const now = new Date();
+    return period === 'monthly'
+      ? new Date(now.getFullYear(), now.getMonth(), 1)
+      : new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  }
+
+  private specificity(entry: PriceEntry): number {
+    return (entry.model ? 2 : 0) + (entry.resolution ? 1 : 0);
+  }
+
+  private addTo(breakdown: Record<string, CostBreakdown>, key: string, cost: number): void {
+    const entry = breakdown[key] || (breakdown[key] = { count: 0, cost: 0 });
+    entry.count++;
+    entry.cost += cost;
+  }
+
+  /**
+   * Load usage records from disk (once; later records are appended in memory)
+   */
+  private loadRecords(): UsageRecord[] {
+    if (this.records) {
+      return this.records;
+    }
+
+    this.records = [];
+    if (fs.existsSync(this.usagePath)) {
+      for (const line of fs.readFileSync(this.usagePath, 'utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          this.records.push(JSON.parse(line));
+        } catch {
+          this.logger.warn('Skipping malformed usage record');
+        }
+      }
+    }
+
+    return this.records;
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Gemini / Vertex AI Adapters
+ *
+ * Native adapters for the Gemini `generateContent` API:
+ * - GeminiAdapter: Google AI Studio (API key)
+ * - VertexAIAdapter: Vertex AI publisher models (OAuth access token)
+ *
+ * Both share the same request/response shape and return image bytes directly.
+ * Aspect ratio and resolution map to `generationConfig.imageConfig`
+ * (unsupported ratios use the nearest supported one).
+ */
+
+import * as fs from 'fs';
+import {
+  ProviderAdapter,
+  ProviderConfig,
+  ProviderResponse,
+  ImageGenerationRequest
+} from './types';
+import {
+  EDIT_MASK_INSTRUCTION,
+  EDIT_SOURCE_INSTRUCTION,
+  getJson,
+  postJson,
+  readImageBase64,
+  resolveBaseUrl
+} from './provider-adapter';
+import { ProviderError } from './provider-errors';
+import { nearestAspectRatio } from './image-processing';
+
+export const GEMINI_ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+const DEFAULT_MODEL = 'gemini-3-pro-image-preview';
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+interface GenerateContentResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string; inlineData?: { mimeType?: string; data: string } }> };
+    finishReason?: string;
+  }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  modelVersion?: string;
+}
+
+export class GeminiAdapter implements ProviderAdapter {
+  readonly name: string = 'gemini';
+
+  async generate(provider: ProviderConfig, request: ImageGenerationRequest): Promise<ProviderResponse> {
+    const model = provider.model || DEFAULT_MODEL;
+    const response = await postJson<GenerateContentResponse>(
+      this.buildUrl(provider, model),
+      this.buildBody(request),
+      this.buildHeaders(provider),
+      request.signal
+    );
+
+    return this.parseResponse(response, model);
+  }
+
+  /**
+   * Health probe: fetch the model's metadata (validates key and model)
+   */
+  async probe(provider: ProviderConfig, signal?: AbortSignal): Promise<void> {
+    const model = provider.model || DEFAULT_MODEL;
+    await getJson(this.buildUrl(provider, model).replace(/:generateContent$/, ''), this.buildHeaders(provider), signal);
+  }
+
+  /**
+   * Endpoint for a model's generateContent call
+   */
+  protected buildUrl(provider: ProviderConfig, model: string): string {
+    return `${resolveBaseUrl(provider, GEMINI_API_BASE)}/models/${model}:generateContent`;
+  }
+
+  /**
+   * Auth headers (API key as header so it never appears in URLs)
+   */
+  protected buildHeaders(provider: ProviderConfig): Record<string, string> {
+    if (!provider.apiKey) {
+      throw new ProviderError('API key not configured', 'auth');
+    }
+    return { 'x-goog-api-key': provider.apiKey };
+  }
+
+  /**
+   * Build the generateContent request body
+   */
+  protected buildBody(request: ImageGenerationRequest): Record<string, unknown> {
+    const parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> = [];
+
+    if (request.mode === 'edit' && request.sourceImagePath) {
+      // Edits send the source (and mask) instead of a style reference
+      parts.push({ inlineData: readImageBase64(request.sourceImagePath) });
+      parts.push({ text: EDIT_SOURCE_INSTRUCTION });
+      if (request.maskPath) {
+        parts.push({ inlineData: readImageBase64(request.maskPath) });
+        parts.push({ text: EDIT_MASK_INSTRUCTION });
+      }
+    } else if (request.styleGridPath && fs.existsSync(request.styleGridPath)) {
+      parts.push({ inlineData: readImageBase64(request.styleGridPath) });
+      parts.push({
+        text: 'Match the visual style, colours, composition shown in this reference. Generate a NEW image following this visual language.'
+      });
+    }
+
+    parts.push({ text: request.prompt });
+
+    const generationConfig: Record<string, unknown> = {
+      responseModalities: ['IMAGE']
+    };
+    if (request.seed !== undefined) {
+      generationConfig.seed = request.seed;
+    }
+
+    const imageConfig: Record<string, string> = {};
+    const aspectRatio = request.aspectRatio && nearestAspectRatio(request.aspectRatio, GEMINI_ASPECT_RATIOS);
+    if (aspectRatio) {
+      imageConfig.aspectRatio = aspectRatio;
+    }
+    if (request.resolution) {
+      imageConfig.imageSize = request.resolution;
+    }
+    if (Object.keys(imageConfig).length > 0) {
+      generationConfig.imageConfig = imageConfig;
+    }
+
+    const body: Record<string, unknown> = {
+      contents: [{ role: 'user', parts }],
+      generationConfig
+    };
+
+    if (request.systemInstruction) {
+      body.systemInstruction = { parts: [{ text: request.systemInstruction }] };
+    }
+
+    return body;
+  }
+
+  /**
+   * Extract the first inline image from the response
+   */
+  protected parseResponse(response: GenerateContentResponse, model: string): ProviderResponse {
+    if (response.promptFeedback?.blockReason) {
+      throw new ProviderError(`Prompt blocked: ${response.promptFeedback.blockReason}`, 'safety');
+    }
+
+    const candidate = response.candidates?.[0];
+    const imagePart = candidate?.content?.parts?.find(part => part.inlineData?.data);
+
+    if (!imagePart?.inlineData) {
+      const finishReason = candidate?.finishReason;
+      if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+        throw new ProviderError(`Generation blocked (finish reason: ${finishReason})`, 'safety');
+      }
+      const reason = finishReason ? ` (finish reason: ${finishReason})` : '';
+      throw new ProviderError(`No image data in response${reason}`, 'unknown');
+    }
+
+    return {
+      data: Buffer.from(imagePart.inlineData.data, 'base64'),
+      mimeType: imagePart.inlineData.mimeType || 'image/png',
+      model: response.modelVersion || model,
+      usage: response.usageMetadata && {
+        inputTokens: response.usageMetadata.promptTokenCount,
+        outputTokens: response.usageMetadata.candidatesTokenCount,
+        totalTokens: response.usageMetadata.totalTokenCount
+      }
+    };
+  }
+}
+
+export class VertexAIAdapter extends GeminiAdapter {
+  readonly name: string = 'vertexai';
+
+  protected buildUrl(provider: ProviderConfig, model: string): string {
+    const project = provider.project || process.env.GOOGLE_CLOUD_PROJECT;
+    const location = provider.location || process.env.GOOGLE_CLOUD_LOCATION || 'global';
+
+    if (!project) {
+      throw new ProviderError('GOOGLE_CLOUD_PROJECT not configured', 'auth');
+    }
+
+    const host = location === 'global'
+      ? 'https://aiplatform.googleapis.com/v1'
+      : `https://${location}-aiplatform.googleapis.com/v1`;
+
+    return `${resolveBaseUrl(provider, host)}/projects/${project}/locations/${location}/publishers/google/models/${model}:generateContent`;
+  }
+
+  protected buildHeaders(provider: ProviderConfig): Record<string, string> {
+    const token = provider.apiKey || process.env.VERTEX_ACCESS_TOKEN || process.env.GOOGLE_CLOUD_ACCESS_TOKEN;
+    if (!token) {
+      throw new ProviderError('Vertex AI access token not configured (set VERTEX_ACCESS_TOKEN)', 'auth');
+    }
+    return { Authorization: `Bearer ${token}` };
+  }
+}
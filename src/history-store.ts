@@ -0,0 +1,93 @@
+/**
+ * History Store
+ *
+ * Local log of every generation, successful or not:
+ * - One JSON entry per line in {configDir}/history.jsonl
+ * - Images, variant sets, replays and style reference grids
+ * - The request as given, the resolved prompt, provider, model, seed,
+ *   duration, output path and the SHA-256 of the output file
+ * - Queries by template, provider, kind, date range, prompt text and outcome
+ *
+ * The file is read on each query, so entries appended by other processes
+ * (or the style reference manager) are always included.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { HistoryEntry, HistoryQuery } from './types';
+import { Logger, defaultLogger } from './logger';
+
+export class HistoryStore {
+  private historyPath: string;
+  private logger: Logger;
+
+  constructor(configDir: string, logger: Logger = defaultLogger()) {
+    this.historyPath = path.join(configDir, 'history.jsonl');
+    this.logger = logger.child('HistoryStore');
+  }
+
+  /**
+   * Append an entry (the id, timestamp and output file hash are filled in)
+   */
+  record(entry: Omit<HistoryEntry, 'id' | 'timestamp' | 'sha256' | 'size'>): HistoryEntry {
+    const file = entry.path && fs.existsSync(entry.path) ? fs.readFileSync(entry.path) : undefined;
+    const recorded: HistoryEntry = {
+      id: `${Date.now().toString(36)}-${crypto.randomBytes(4).toString('hex')}`,
+      timestamp: new Date().toISOString(),
+      ...entry,
+      sha256: file ? crypto.createHash('sha256').update(file).digest('hex') : undefined,
+      size: file?.length
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(this.historyPath), { recursive: true });
+      fs.appendFileSync(this.historyPath, JSON.stringify(recorded) + '\n', 'utf-8');
+    } catch (error) {
+      this.logger.error('Failed to append history entry', error);
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Entries matching every given filter, newest first
+   * `text` is a case-insensitive match against the user's and the resolved prompt
+   */
+  query(query: HistoryQuery = {}): HistoryEntry[] {
+    const since = query.since?.getTime() ?? -Infinity;
+    const until = query.until?.getTime() ?? Infinity;
+    const text = query.text?.toLowerCase();
+
+    const matches = this.load()
+      .filter(entry => {
+        const time = Date.parse(entry.timestamp);
+        return time >= since && time <= until &&
+          (query.template === undefined || entry.template === query.template) &&
+          (query.provider === undefined || entry.provider === query.provider) &&
+          (query.kind === undefined || entry.kind === query.kind) &&
+          (query.success === undefined || entry.success === query.success) &&
+          (!text || [entry.userPrompt, entry.prompt].some(prompt => prompt?.toLowerCase().includes(text)));
+      })
+      .reverse();
+
+    return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+  }
+
+  private load(): HistoryEntry[] {
+    if (!fs.existsSync(this.historyPath)) {
+      return [];
+    }
+
+    const entries: HistoryEntry[] = [];
+    for (const line of fs.readFileSync(this.historyPath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        this.logger.warn('Skipping malformed history entry');
+      }
+    }
+    return entries;
+  }
+}
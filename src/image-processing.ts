@@ -0,0 +1,238 @@
+/**
+ * Image Processing
+ *
+ * sharp-based helpers shared by the generators:
+ * - Optional sharp loading (sharp is an optional dependency)
+ * - Grid compositing (style reference grids, variant contact sheets)
+ * - Tile labels rendered as SVG overlays
+ * - Aspect ratio / resolution maths and crop-or-pad conformance
+ * - Re-encoding provider output to the format its file extension names
+ */
+
+import { AspectFit, ImageResolution } from './types';
+import { imageDimensions } from './provider-adapter';
+
+type SharpModule = typeof import('sharp');
+
+const RESOLUTION_LONG_SIDE: Record<ImageResolution, number> = {
+  '1K': 1024,
+  '2K': 2048,
+  '4K': 4096
+};
+
+// Output ratios within this tolerance are left alone
+const ASPECT_TOLERANCE = 0.01;
+
+export interface GridOptions {
+  tileSize: number;
+  gap: number;
+  columns: number;
+  labels?: string[];
+  background?: { r: number; g: number; b: number; alpha: number };
+}
+
+const DEFAULT_BACKGROUND = { r: 26, g: 35, b: 50, alpha: 1 };
+
+/**
+ * Load sharp if it is installed
+ */
+export async function loadSharp(): Promise<SharpModule | null> {
+  return import('sharp').then(m => m.default).catch(() => null);
+}
+
+/**
+ * Composite images into a grid of square tiles (cover-cropped), row by row
+ * Throws when sharp is not installed
+ */
+export async function compositeGrid(images: Buffer[], options: GridOptions): Promise<Buffer> {
+  const sharp = await loadSharp();
+  if (!sharp) {
+    throw new Error('sharp is not installed');
+  }
+
+  const { tileSize, gap } = options;
+  const columns = Math.max(1, Math.min(options.columns, images.length));
+  const rows = Math.ceil(images.length / columns);
+
+  const tiles = await Promise.all(
+    images.map(async (img, i) => {
+      let tile: Buffer;
+      try {
+        tile = await sharp(img).resize(tileSize, tileSize, { fit: 'cover' }).png().toBuffer();
+      } catch {
+        tile = img;
+      }
+
+      const label = options.labels?.[i];
+      if (!label) {
+        return tile;
+      }
+      return sharp(tile).composite([{ input: Buffer.from(labelSvg(label, tileSize)), left: 0, top: 0 }]).png().toBuffer();
+    })
+  );
+
+  return sharp({
+    create: {
+      width: columns * tileSize + (columns - 1) * gap,
+      height: rows * tileSize + (rows - 1) * gap,
+      channels: 4,
+      background: options.background || DEFAULT_BACKGROUND
+    }
+  })
+    .composite(tiles.map((input, i) => ({
+      input,
+      left: (i % columns) * (tileSize + gap),
+      top: Math.floor(i / columns) * (tileSize + gap)
+    })))
+    .png({ compressionLevel: 9 })
+    .toBuffer();
+}
+
+/**
+ * Parse an aspect ratio such as "16:9" (null when malformed)
+ */
+export function parseAspectRatio(aspectRatio: string): { width: number; height: number } | null {
+  const match = aspectRatio.trim().match(/^(\d+(?:\.\d+)?)\s*[:x/]\s*(\d+(?:\.\d+)?)$/);
+  if (!match) {
+    return null;
+  }
+
+  const width = Number(match[1]);
+  const height = Number(match[2]);
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+/**
+ * Closest supported aspect ratio (by ratio value); the caller crops or pads the difference
+ */
+export function nearestAspectRatio(aspectRatio: string, supported: string[]): string | undefined {
+  const target = parseAspectRatio(aspectRatio);
+  if (!target) {
+    return undefined;
+  }
+
+  const value = (ratio: { width: number; height: number }) => Math.log(ratio.width / ratio.height);
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of supported) {
+    const parsed = parseAspectRatio(candidate);
+    if (!parsed) continue;
+    const distance = Math.abs(value(parsed) - value(target));
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Pixel size for an aspect ratio and resolution tier
+ * The long side follows the tier (1K = 1024); both sides are rounded to multiples of 64
+ */
+export function dimensionsFor(
+  aspectRatio: string | undefined,
+  resolution: ImageResolution | undefined,
+  defaultLongSide: number = RESOLUTION_LONG_SIDE['1K']
+): { width: number; height: number } {
+  const ratio = (aspectRatio && parseAspectRatio(aspectRatio)) || { width: 1, height: 1 };
+  const longSide = resolution ? RESOLUTION_LONG_SIDE[resolution] : defaultLongSide;
+  const round = (value: number) => Math.max(64, Math.round(value / 64) * 64);
+
+  return ratio.width >= ratio.height
+    ? { width: round(longSide), height: round((longSide * ratio.height) / ratio.width) }
+    : { width: round((longSide * ratio.width) / ratio.height), height: round(longSide) };
+}
+
+/**
+ * Crop (centre) or pad an image to an aspect ratio, keeping its resolution
+ * Returns null when the image already matches or sharp is not installed
+ */
+export async function conformToAspectRatio(
+  data: Buffer,
+  aspectRatio: string,
+  fit: AspectFit = 'crop'
+): Promise<Buffer | null> {
+  const ratio = parseAspectRatio(aspectRatio);
+  const size = imageDimensions(data);
+  if (!ratio || !size) {
+    return null;
+  }
+
+  const target = ratio.width / ratio.height;
+  const actual = size.width / size.height;
+  if (Math.abs(actual - target) / target <= ASPECT_TOLERANCE) {
+    return null;
+  }
+
+  const sharp = await loadSharp();
+  if (!sharp) {
+    return null;
+  }
+
+  const image = sharp(data);
+  if (fit === 'pad') {
+    const width = actual < target ? Math.round(size.height * target) : size.width;
+    const height = actual < target ? size.height : Math.round(size.width / target);
+    const left = Math.floor((width - size.width) / 2);
+    const top = Math.floor((height - size.height) / 2);
+    return image
+      .extend({
+        left,
+        right: width - size.width - left,
+        top,
+        bottom: height - size.height - top,
+        background: { r: 0, g: 0, b: 0, alpha: 1 }
+      })
+      .toBuffer();
+  }
+
+  const width = actual > target ? Math.round(size.height * target) : size.width;
+  const height = actual > target ? size.height : Math.round(size.width / target);
+  return image
+    .extract({
+      left: Math.floor((size.width - width) / 2),
+      top: Math.floor((size.height - height) / 2),
+      width,
+      height
+    })
+    .toBuffer();
+}
+
+/**
+ * Re-encode an image as a MIME type (image/png, image/jpeg, image/webp or image/gif)
+ * Returns null when the type is not supported or sharp is not installed
+ */
+export async function convertImage(data: Buffer, mimeType: string): Promise<Buffer | null> {
+  const format = ({ 'image/png': 'png', 'image/jpeg': 'jpeg', 'image/webp': 'webp', 'image/gif': 'gif' } as const)[mimeType];
+  const sharp = format && await loadSharp();
+  if (!format || !sharp) {
+    return null;
+  }
+
+  try {
+    return await sharp(data).toFormat(format).toBuffer();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Caption bar along the bottom of a tile
+ */
+function labelSvg(label: string, tileSize: number): string {
+  const fontSize = Math.max(12, Math.round(tileSize / 24));
+  const barHeight = Math.round(fontSize * 1.8);
+  const escaped = label
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${tileSize}" height="${tileSize}">` +
+    `<rect x="0" y="${tileSize - barHeight}" width="${tileSize}" height="${barHeight}" fill="rgba(0,0,0,0.6)"/>` +
+    `<text x="${fontSize / 2}" y="${tileSize - barHeight / 2}" dominant-baseline="middle" ` +
+    `font-family="sans-serif" font-size="${fontSize}" fill="#ffffff">${escaped}</text>` +
+    `</svg>`;
+}
@@ -6,13 +6,30 @@
  * and multi-provider fallback.
  */
 
+import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { ImageOrchestrator } from './orchestrator';
-import { PluginContext, ImageGenerationRequest, ImageGenerationResult } from './types';
+import {
+  PluginContext,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  BatchOptions,
+  BatchReport,
+  ReplayOptions,
+  GenerationPlan,
+  HistoryEntry,
+  HistoryQuery,
+  ImageProvenance,
+  ManifestVerification
+} from './types';
 import { StyleReferenceManager } from './style-reference-manager';
 import { DomainKnowledgeManager } from './domain-knowledge-manager';
 import { ActiveTemplateManager } from './active-template-manager';
+import { ProgressEmitter } from './progress-events';
+import { Logger } from './logger';
+import { formatProvenance, readProvenance } from './provenance';
+import { ManifestSigner } from './manifest-signer';
 
 // Export types
 export * from './types';
@@ -22,6 +39,45 @@ export { ImageOrchestrator } from './orchestrator';
 export { ConfigLoader } from './config-loader';
 export { TemplateLoader } from './template-loader';
 export { ProviderManager } from './provider-manager';
+export { CostTracker } from './cost-tracker';
+export { RateLimiter } from './rate-limiter';
+export { ResultStore } from './result-store';
+export { HistoryStore } from './history-store';
+export { composePrompt } from './prompt-composer';
+export { postProcessImage, validatePostProcess } from './post-processor';
+export { embedProvenance, readProvenance, formatProvenance } from './provenance';
+export { ManifestSigner, ManifestDetails } from './manifest-signer';
+export {
+  ProgressEmitter,
+  ProgressEventMap,
+  ProgressEventName,
+  ProgressListener
+} from './progress-events';
+export {
+  createLogger,
+  defaultLogger,
+  redactSecrets,
+  registerSecret,
+  Logger,
+  LoggerOptions,
+  LogLevel,
+  LogRecord
+} from './logger';
+export { GenerationAbortedError } from './cancellation';
+export {
+  registerProvider,
+  unregisterProvider,
+  getProviderRegistration,
+  listProviderRegistrations
+} from './provider-registry';
+
+// Export provider adapters
+export { GeminiAdapter, VertexAIAdapter } from './gemini-adapter';
+export { OpenRouterAdapter } from './openrouter-adapter';
+export { OpenAICompatibleAdapter } from './openai-compatible-adapter';
+export { Automatic1111Adapter, ComfyUIAdapter } from './stable-diffusion-adapter';
+export { MockAdapter } from './mock-adapter';
+export { LegacyCliAdapter } from './legacy-cli-adapter';
 
 // Export new managers (matching web UI functionality)
 export { StyleReferenceManager } from './style-reference-manager';
@@ -38,18 +94,29 @@ export {
 
 /**
  * Create and initialize the create-image plugin
+ * Hosts can pass a logger (e.g. createLogger({ level: 'warn' })) to control plugin output
  */
-export async function createPlugin(cwd: string = process.cwd()): Promise<CreateImagePlugin> {
+export async function createPlugin(
+  cwd: string = process.cwd(),
+  options: { logger?: Logger } = {}
+): Promise<CreateImagePlugin> {
   const repositoryPath = path.join(os.homedir(), 'Documents', 'github', 'image-generator');
 
   const context: PluginContext = {
     configDir: path.join(os.homedir(), '.config', 'create-image'),
     repositoryPath,
-    cwd
+    cwd,
+    logger: options.logger
   };
 
   const orchestrator = new ImageOrchestrator(context);
-  const styleRefManager = new StyleReferenceManager(repositoryPath);
+  const styleRefManager = new StyleReferenceManager(
+    repositoryPath,
+    orchestrator.events,
+    options.logger,
+    orchestrator.signer,
+    orchestrator.history
+  );
   const domainKnowledgeManager = new DomainKnowledgeManager(repositoryPath);
   const activeTemplateManager = new ActiveTemplateManager(repositoryPath);
 
@@ -57,6 +124,7 @@ export async function createPlugin(cwd: string = process.cwd()): Promise<CreateI
     name: 'create-image',
     version: '2.0.0',
     orchestrator,
+    events: orchestrator.events,
     styleRefManager,
     domainKnowledgeManager,
     activeTemplateManager,
@@ -65,10 +133,56 @@ export async function createPlugin(cwd: string = process.cwd()): Promise<CreateI
       return orchestrator.generateImage(request);
     },
 
+    async generateBatch(manifestPath: string, options?: BatchOptions): Promise<BatchReport> {
+      return orchestrator.generateBatch(manifestPath, options);
+    },
+
+    async replay(resultId: string, options?: ReplayOptions): Promise<ImageGenerationResult> {
+      return orchestrator.replay(resultId, options);
+    },
+
+    async explain(request: ImageGenerationRequest): Promise<GenerationPlan> {
+      return orchestrator.explain(request);
+    },
+
     async listTemplates(): Promise<string> {
       return orchestrator.listTemplates();
     },
 
+    history(query?: HistoryQuery): HistoryEntry[] {
+      return orchestrator.queryHistory(query);
+    },
+
+    // Provenance (paths resolve against cwd)
+    readProvenance(filePath: string) {
+      const resolved = path.resolve(cwd, filePath);
+      return fs.existsSync(resolved) ? readProvenance(resolved) : null;
+    },
+
+    inspectImage(filePath: string) {
+      const resolved = path.resolve(cwd, filePath);
+      if (!fs.existsSync(resolved)) {
+        return `File not found: ${resolved}`;
+      }
+      const provenance = readProvenance(resolved);
+      let output = provenance
+        ? `${resolved}\n\n${formatProvenance(provenance)}`
+        : `No create-image provenance in ${resolved}`;
+
+      // Signed manifest status, when the sidecar is present
+      if (fs.existsSync(ManifestSigner.manifestPathFor(resolved))) {
+        const verification = orchestrator.signer.verify(resolved);
+        output += verification.valid
+          ? `\n\nManifest: ✅ signed by ${verification.keyId}, content unchanged`
+          : `\n\nManifest: ❌ ${verification.errors.join('; ')}`;
+      }
+      return output;
+    },
+
+    verify(filePath: string, trustedKeys?: string[]) {
+      return orchestrator.signer.verify(path.resolve(cwd, filePath), trustedKeys);
+    },
+
     // Style reference management
     listStyleReferences(templateName: string) {
       return styleRefManager.listStyleReferences(templateName);
@@ -106,13 +220,23 @@ export interface CreateImagePlugin {
   name: string;
   version: string;
   orchestrator: ImageOrchestrator;
+  events: ProgressEmitter;
   styleRefManager: StyleReferenceManager;
   domainKnowledgeManager: DomainKnowledgeManager;
   activeTemplateManager: ActiveTemplateManager;
 
   // Image generation
   generate(request: ImageGenerationRequest): Promise<ImageGenerationResult>;
+  generateBatch(manifestPath: string, options?: BatchOptions): Promise<BatchReport>;
+  replay(resultId: string, options?: ReplayOptions): Promise<ImageGenerationResult>;
+  explain(request: ImageGenerationRequest): Promise<GenerationPlan>;
   listTemplates(): Promise<string>;
+  history(query?: HistoryQuery): HistoryEntry[];
+
+  // Provenance
+  readProvenance(filePath: string): ImageProvenance | null;
+  inspectImage(filePath: string): string;
+  verify(filePath: string, trustedKeys?: string[]): ManifestVerification;
 
   // Style reference management
   listStyleReferences(templateName: string): ReturnType<StyleReferenceManager['listStyleReferences']>;
@@ -0,0 +1,196 @@
+/**
+ * Legacy CLI Adapter
+ *
+ * Generates by spawning `node scripts/generate.js` in the image-generator
+ * repository (the original execution path). Exit code 0 is treated as
+ * success and the written file is read back as the response.
+ *
+ * generate.js writes to a scratch file (removed afterwards), so a killed
+ * process never leaves a partial image at the output path. Aborting the
+ * request signal terminates the child process; its scratch file is removed
+ * again once it has exited.
+ *
+ * Selected per provider with `adapter: legacy-cli` in config.yaml.
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ProviderAdapter,
+  ProviderConfig,
+  ProviderResponse,
+  ImageGenerationRequest
+} from './types';
+import { mimeTypeFromPath } from './provider-adapter';
+import { getRegistrationFor } from './provider-registry';
+import { abortReason } from './cancellation';
+import { ProgressEmitter } from './progress-events';
+
+const KILL_GRACE_MS = 5000;
+
+export class LegacyCliAdapter implements ProviderAdapter {
+  readonly name = 'legacy-cli';
+  private repositoryPath: string;
+  private events?: ProgressEmitter;
+
+  constructor(repositoryPath: string, events?: ProgressEmitter) {
+    this.repositoryPath = repositoryPath;
+    this.events = events;
+  }
+
+  async generate(provider: ProviderConfig, request: ImageGenerationRequest): Promise<ProviderResponse> {
+    const outputPath = path.resolve(this.repositoryPath, request.outputPath || `image_${Date.now()}.png`);
+    const scratchPath = path.join(
+      os.tmpdir(),
+      `create-image-${process.pid}-${Date.now()}${path.extname(outputPath) || '.png'}`
+    );
+
+    try {
+      await this.run(
+        this.buildArgs(provider, request, scratchPath),
+        this.buildEnv(provider),
+        provider.name,
+        scratchPath,
+        request.signal
+      );
+
+      if (!fs.existsSync(scratchPath)) {
+        throw new Error(`generate.js exited successfully but did not write ${scratchPath}`);
+      }
+
+      return {
+        data: fs.readFileSync(scratchPath),
+        mimeType: mimeTypeFromPath(outputPath),
+        model: provider.model || 'default'
+      };
+    } finally {
+      fs.rmSync(scratchPath, { force: true });
+    }
+  }
+
+  /**
+   * Build generate.js arguments
+   */
+  private buildArgs(provider: ProviderConfig, request: ImageGenerationRequest, outputPath: string): string[] {
+    const scriptPath = path.join(this.repositoryPath, 'scripts', 'generate.js');
+    const args = [scriptPath];
+
+    // Add provider and model
+    args.push('--provider', provider.type || provider.name);
+    if (provider.model) {
+      args.push('--model', provider.model);
+    }
+
+    // Add template if specified
+    if (request.template) {
+      args.push('--template', request.template);
+    }
+
+    // Add type if specified
+    if (request.type) {
+      args.push('--type', request.type);
+    }
+
+    // Add prompt (generate.js applies the template itself, so it gets the user's prompt)
+    args.push('--prompt', request.userPrompt ?? request.prompt);
+
+    // Add output path
+    args.push('--output', outputPath);
+
+    // Add style grid if specified
+    if (request.styleGridPath) {
+      args.push('--style-grid', request.styleGridPath);
+    }
+
+    return args;
+  }
+
+  /**
+   * Build child environment with provider credentials
+   */
+  private buildEnv(provider: ProviderConfig): NodeJS.ProcessEnv {
+    const env = {
+      ...process.env
+    };
+
+    // Set credentials in environment as declared by the provider registration
+    const registration = getRegistrationFor(provider);
+    if (registration?.legacyEnv) {
+      Object.assign(env, registration.legacyEnv(provider, env));
+    }
+
+    return env;
+  }
+
+  /**
+   * Spawn generate.js and resolve when it exits cleanly
+   * (aborting sends SIGTERM, then SIGKILL if the process lingers; a killed
+   * process's scratch file is removed when it exits, as it may still write it)
+   */
+  private run(
+    args: string[],
+    env: NodeJS.ProcessEnv,
+    providerName: string,
+    scratchPath: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal));
+    }
+
+    return new Promise((resolve, reject) => {
+      const nodeProcess = spawn('node', args, {
+        cwd: this.repositoryPath,
+        env
+      });
+
+      let killTimer: NodeJS.Timeout | undefined;
+      let killed = false;
+      const onAbort = () => {
+        killed = true;
+        nodeProcess.kill('SIGTERM');
+        killTimer = setTimeout(() => nodeProcess.kill('SIGKILL'), KILL_GRACE_MS);
+        reject(abortReason(signal!));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      let stdout = '';
+      let stderr = '';
+
+      // Child output goes to provider-output events instead of this process's stdout
+      nodeProcess.stdout.on('data', (data) => {
+        const output = data.toString();
+        stdout += output;
+        this.events?.emit('provider-output', { provider: providerName, stream: 'stdout', text: output });
+      });
+
+      nodeProcess.stderr.on('data', (data) => {
+        const output = data.toString();
+        stderr += output;
+        this.events?.emit('provider-output', { provider: providerName, stream: 'stderr', text: output });
+      });
+
+      nodeProcess.on('close', (code) => {
+        clearTimeout(killTimer);
+        signal?.removeEventListener('abort', onAbort);
+
+        if (killed) {
+          fs.rmSync(scratchPath, { force: true });
+        }
+
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(stderr || stdout || `Process exited with code ${code}`));
+        }
+      });
+
+      nodeProcess.on('error', (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(new Error(`Failed to spawn process: ${error.message}`));
+      });
+    });
+  }
+}
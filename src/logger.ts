@@ -0,0 +1,221 @@
+/**
+ * Logger
+ *
+ * Level-based logging for library code, injectable through PluginContext:
+ * - Levels: debug, info, warn, error, silent
+ * - Text output ("[Namespace] message") or JSON lines
+ * - Per-module namespaces via child() ([Orchestrator], [TemplateLoader], ...)
+ * - Custom destinations via `write` (records arrive already redacted)
+ * - Secret redaction: API keys and tokens in URLs, headers and JSON, known
+ *   key formats, credential environment variables and registered secrets
+ *
+ * The default logger logs at info (CREATE_IMAGE_LOG_LEVEL) in text form
+ * (CREATE_IMAGE_LOG_FORMAT=json for JSON lines).
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export interface LogRecord {
+  time: string;
+  level: Exclude<LogLevel, 'silent'>;
+  namespace: string;
+  message: string;
+  data?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  json?: boolean;
+  namespace?: string;
+  write?: (record: LogRecord) => void;
+}
+
+export interface Logger {
+  debug(message: string, details?: unknown): void;
+  info(message: string, details?: unknown): void;
+  warn(message: string, details?: unknown): void;
+  error(message: string, details?: unknown): void;
+  child(namespace: string): Logger;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100
+};
+
+const REDACTED = '[REDACTED]';
+
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  // Query strings: ?key=..., &access_token=...
+  [/([?&](?:key|api[_-]?key|access[_-]?token|token|secret)=)[^&\s"'#]+/gi, `$1${REDACTED}`],
+  // Authorization: Bearer ... / Basic ...
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/g, `$1 ${REDACTED}`],
+  // Header / JSON / YAML fields: "apiKey": "...", x-goog-api-key: ...
+  [/((?:api[_-]?key|x-goog-api-key|access[_-]?token|refresh[_-]?token|client[_-]?secret|password|authorization)["']?\s*[:=]\s*["']?)(?!Bearer\b|Basic\b)[^"'\s,}&]+/gi, `$1${REDACTED}`],
+  // Google API keys and sk- style keys (OpenAI, OpenRouter)
+  [/\bAIza[0-9A-Za-z_-]{20,}/g, REDACTED],
+  [/\bsk-[A-Za-z0-9_-]{16,}/g, REDACTED],
+  // Google OAuth access tokens
+  [/\bya29\.[0-9A-Za-z._-]{20,}/g, REDACTED]
+];
+
+const SECRET_ENV_PATTERN = /(KEY|TOKEN|SECRET|PASSWORD)/i;
+const MIN_SECRET_LENGTH = 8;
+
+const registeredSecrets = new Set<string>();
+
+/**
+ * Register a secret value (e.g. an apiKey from config.yaml) to redact wherever it appears
+ */
+export function registerSecret(value: string | undefined): void {
+  if (value && value.length >= MIN_SECRET_LENGTH) {
+    registeredSecrets.add(value);
+  }
+}
+
+/**
+ * Replace API keys and tokens in text
+ */
+export function redactSecrets(text: string): string {
+  let redacted = text;
+
+  for (const secret of knownSecrets()) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  for (const [pattern, replacement] of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, replacement);
+  }
+
+  return redacted;
+}
+
+/**
+ * Create a logger (the namespace defaults to none; use child() per module)
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const threshold = LEVEL_ORDER[options.level || 'info'];
+  const write = options.write || (options.json ? writeJson : writeText);
+  const namespace = options.namespace || '';
+
+  const log = (level: LogRecord['level'], message: string, details?: unknown) => {
+    if (LEVEL_ORDER[level] < threshold) return;
+
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      namespace,
+      message: redactSecrets(message)
+    };
+
+    if (details instanceof Error) {
+      record.error = redactSecrets(details.stack || details.message);
+    } else if (details !== undefined) {
+      const data = redactValue(details);
+      record.data = data && typeof data === 'object' && !Array.isArray(data)
+        ? data as Record<string, unknown>
+        : { details: data };
+    }
+
+    try {
+      write(record);
+    } catch {
+      // Logging must never break generation
+    }
+  };
+
+  return {
+    debug: (message, details) => log('debug', message, details),
+    info: (message, details) => log('info', message, details),
+    warn: (message, details) => log('warn', message, details),
+    error: (message, details) => log('error', message, details),
+    child: (child: string) => createLogger({ ...options, namespace: child })
+  };
+}
+
+let defaultLoggerInstance: Logger | undefined;
+
+/**
+ * Process-wide logger used when none is injected
+ */
+export function defaultLogger(): Logger {
+  if (!defaultLoggerInstance) {
+    const level = process.env.CREATE_IMAGE_LOG_LEVEL as LogLevel | undefined;
+    defaultLoggerInstance = createLogger({
+      level: level && level in LEVEL_ORDER ? level : 'info',
+      json: process.env.CREATE_IMAGE_LOG_FORMAT === 'json'
+    });
+  }
+  return defaultLoggerInstance;
+}
+
+function knownSecrets(): string[] {
+  const secrets = [...registeredSecrets];
+  for (const [name, value] of Object.entries(process.env)) {
+    if (value && value.length >= MIN_SECRET_LENGTH && SECRET_ENV_PATTERN.test(name)) {
+      secrets.push(value);
+    }
+  }
+
+  // Longest first, so a secret containing another is replaced whole
+  return secrets.sort((a, b) => b.length - a.length);
+}
+
+function redactValue(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return redactSecrets(value);
+  }
+  if (value instanceof Error) {
+    return redactSecrets(value.message);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        /^(api[_-]?key|access[_-]?token|token|secret|password|authorization)$/i.test(key) && child
+          ? REDACTED
+          : redactValue(child)
+      ])
+    );
+  }
+  return value;
+}
+
+function writeText(record: LogRecord): void {
+  const prefix = record.namespace ? `[${record.namespace}] ` : '';
+  const lines = [`${prefix}${record.message}`];
+
+  if (record.data) {
+    for (const [key, value] of Object.entries(record.data)) {
+      if (value === undefined) continue;
+      lines.push(`  ${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`);
+    }
+  }
+  if (record.error) {
+    lines.push(`  ${record.error}`);
+  }
+
+  const output = lines.join('\n');
+  if (record.level === 'error') {
+    console.error(output);
+  } else if (record.level === 'warn') {
+    console.warn(output);
+  } else {
+    console.log(output);
+  }
+}
+
+function writeJson(record: LogRecord): void {
+  const line = JSON.stringify(record);
+  if (record.level === 'error' || record.level === 'warn') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
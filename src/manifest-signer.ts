@@ -0,0 +1,303 @@
+/**
+ * Manifest Signer
+ *
+ * Signed sidecar manifests proving an asset came from this pipeline:
+ * - {asset}.manifest.json next to each generated image and style reference grid
+ * - SHA-256 of the asset, the template files (config.json, style-guide.json,
+ *   prompts/*.txt), domain-knowledge.txt and the style reference used
+ * - Ed25519 signature over the canonical JSON, with a key pair created on
+ *   first use in {configDir}/keys (private key readable by the owner only)
+ *
+ * verify() checks the signature, that the asset still matches its hash and
+ * that the signing key is trusted (the local key unless others are given).
+ * Inputs that changed since signing are reported but do not fail verification.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AssetManifest, ManifestFile, ManifestVerification } from './types';
+import { Logger, defaultLogger } from './logger';
+
+const MANIFEST_SUFFIX = '.manifest.json';
+const PRIVATE_KEY_FILE = 'manifest-ed25519.key';
+const PUBLIC_KEY_FILE = 'manifest-ed25519.pub';
+
+export interface ManifestDetails {
+  kind: AssetManifest['kind'];
+  provider?: string;
+  model?: string;
+  seed?: number;
+  resultId?: string;
+  template?: { name: string; dir: string; version?: string };
+  domainKnowledgePath?: string;
+  styleReferencePath?: string;
+  referenceImagePaths?: string[];
+}
+
+export class ManifestSigner {
+  private keyDir: string;
+  private logger: Logger;
+  private privateKey?: crypto.KeyObject;
+
+  constructor(configDir: string, logger: Logger = defaultLogger()) {
+    this.keyDir = path.join(configDir, 'keys');
+    this.logger = logger.child('ManifestSigner');
+  }
+
+  /**
+   * Sidecar manifest path for an asset
+   */
+  static manifestPathFor(assetPath: string): string {
+    return `${assetPath}${MANIFEST_SUFFIX}`;
+  }
+
+  /**
+   * Hash the asset and its inputs, sign, and write the sidecar manifest
+   * Returns the manifest path
+   */
+  sign(assetPath: string, details: ManifestDetails): string {
+    const privateKey = this.loadPrivateKey();
+    const publicKey = crypto.createPublicKey(privateKey);
+
+    const unsigned: Omit<AssetManifest, 'signature'> = {
+      version: 1,
+      kind: details.kind,
+      generator: 'create-image',
+      createdAt: new Date().toISOString(),
+      asset: { ...hashFile(assetPath), path: path.basename(assetPath) },
+      provider: details.provider,
+      model: details.model,
+      seed: details.seed,
+      resultId: details.resultId,
+      template: details.template ? this.templateEntry(details.template) : undefined,
+      domainKnowledge: optionalHash(details.domainKnowledgePath),
+      styleReference: optionalHash(details.styleReferencePath),
+      referenceImages: details.referenceImagePaths
+        ?.map(optionalHash)
+        .filter((file): file is ManifestFile => file !== undefined)
+    };
+
+    const manifest: AssetManifest = {
+      ...unsigned,
+      signature: {
+        algorithm: 'ed25519',
+        keyId: keyId(publicKey),
+        publicKey: exportPublicKey(publicKey),
+        value: crypto.sign(null, Buffer.from(canonicalJson(unsigned)), privateKey).toString('base64')
+      }
+    };
+
+    const manifestPath = ManifestSigner.manifestPathFor(assetPath);
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+    return manifestPath;
+  }
+
+  /**
+   * Verify an asset (or its .manifest.json) against its signed manifest
+   * `trustedKeys` are base64 SPKI public keys; the local key is always trusted
+   */
+  verify(filePath: string, trustedKeys: string[] = []): ManifestVerification {
+    const manifestPath = filePath.endsWith(MANIFEST_SUFFIX) ? filePath : ManifestSigner.manifestPathFor(filePath);
+    const result: ManifestVerification = {
+      valid: false,
+      assetPath: filePath.endsWith(MANIFEST_SUFFIX) ? filePath.slice(0, -MANIFEST_SUFFIX.length) : filePath,
+      manifestPath,
+      signatureValid: false,
+      assetIntact: false,
+      trustedKey: false,
+      changedInputs: [],
+      errors: []
+    };
+
+    if (!fs.existsSync(manifestPath)) {
+      result.errors.push(`No manifest found: ${manifestPath}`);
+      return result;
+    }
+
+    let manifest: AssetManifest;
+    try {
+      manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    } catch {
+      result.errors.push(`Malformed manifest: ${manifestPath}`);
+      return result;
+    }
+
+    const { signature, ...unsigned } = manifest;
+    if (!signature || signature.algorithm !== 'ed25519' || !unsigned.asset) {
+      result.errors.push('Manifest is not signed with Ed25519');
+      return result;
+    }
+    result.keyId = signature.keyId;
+    // Given only the manifest, the asset is the recorded file next to it
+    if (filePath === manifestPath) {
+      result.assetPath = path.join(path.dirname(manifestPath), unsigned.asset.path);
+    }
+
+    try {
+      const publicKey = importPublicKey(signature.publicKey);
+      result.signatureValid = crypto.verify(
+        null,
+        Buffer.from(canonicalJson(unsigned)),
+        publicKey,
+        Buffer.from(signature.value, 'base64')
+      );
+    } catch (error) {
+      result.errors.push(`Invalid signature data: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!result.signatureValid) {
+      result.errors.push('Signature does not match the manifest (manifest altered or signed by another key)');
+    }
+
+    const localKey = this.localPublicKey();
+    result.trustedKey = [...trustedKeys, ...(localKey ? [localKey] : [])].includes(signature.publicKey);
+    if (!result.trustedKey) {
+      result.errors.push(`Manifest signed by an untrusted key (${signature.keyId})`);
+    }
+
+    if (!fs.existsSync(result.assetPath)) {
+      result.errors.push(`Asset not found: ${result.assetPath}`);
+    } else {
+      const actual = hashFile(result.assetPath);
+      result.assetIntact = actual.sha256 === unsigned.asset.sha256 && actual.size === unsigned.asset.size;
+      if (!result.assetIntact) {
+        result.errors.push('Asset content does not match the manifest (file altered)');
+      }
+    }
+
+    result.changedInputs = changedInputs(unsigned);
+    result.valid = result.signatureValid && result.trustedKey && result.assetIntact;
+    return result;
+  }
+
+  /**
+   * Local public key (base64 SPKI) to share with verifiers; created on first use
+   */
+  publicKey(): string {
+    return exportPublicKey(crypto.createPublicKey(this.loadPrivateKey()));
+  }
+
+  private localPublicKey(): string | null {
+    const publicKeyPath = path.join(this.keyDir, PUBLIC_KEY_FILE);
+    if (!fs.existsSync(publicKeyPath)) {
+      return null;
+    }
+    return exportPublicKey(crypto.createPublicKey(fs.readFileSync(publicKeyPath, 'utf-8')));
+  }
+
+  /**
+   * Load the signing key, generating the key pair on first use
+   */
+  private loadPrivateKey(): crypto.KeyObject {
+    if (this.privateKey) {
+      return this.privateKey;
+    }
+
+    const privateKeyPath = path.join(this.keyDir, PRIVATE_KEY_FILE);
+    if (fs.existsSync(privateKeyPath)) {
+      this.privateKey = crypto.createPrivateKey(fs.readFileSync(privateKeyPath, 'utf-8'));
+      return this.privateKey;
+    }
+
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+    fs.mkdirSync(this.keyDir, { recursive: true, mode: 0o700 });
+    fs.writeFileSync(privateKeyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+    fs.writeFileSync(path.join(this.keyDir, PUBLIC_KEY_FILE), publicKey.export({ type: 'spki', format: 'pem' }));
+    this.logger.info(`Created manifest signing key ${keyId(publicKey)} in ${this.keyDir}`);
+
+    this.privateKey = privateKey;
+    return privateKey;
+  }
+
+  /**
+   * Hashes of the template's own files (domain knowledge and style references are listed separately)
+   */
+  private templateEntry(template: NonNullable<ManifestDetails['template']>): AssetManifest['template'] {
+    const candidates = ['config.json', 'style-guide.json'];
+    const promptsDir = path.join(template.dir, 'prompts');
+    if (fs.existsSync(promptsDir)) {
+      candidates.push(
+        ...fs.readdirSync(promptsDir)
+          .filter(file => file.endsWith('.txt'))
+          .sort()
+          .map(file => path.join('prompts', file))
+      );
+    }
+
+    let version = template.version;
+    const configPath = path.join(template.dir, 'config.json');
+    if (!version && fs.existsSync(configPath)) {
+      try {
+        version = JSON.parse(fs.readFileSync(configPath, 'utf-8')).version;
+      } catch {
+        // The hash still covers a malformed config.json
+      }
+    }
+
+    return {
+      name: template.name,
+      version: version === undefined ? undefined : String(version),
+      dir: template.dir,
+      files: candidates
+        .filter(file => fs.existsSync(path.join(template.dir, file)))
+        .map(file => ({ ...hashFile(path.join(template.dir, file)), path: file }))
+    };
+  }
+}
+
+/**
+ * Inputs whose files are missing or no longer match their recorded hash
+ */
+function changedInputs(manifest: Omit<AssetManifest, 'signature'>): string[] {
+  const inputs: ManifestFile[] = [
+    ...(manifest.template?.files || []).map(file => ({ ...file, path: path.join(manifest.template!.dir, file.path) })),
+    ...[manifest.domainKnowledge, manifest.styleReference].filter((file): file is ManifestFile => file !== undefined),
+    ...(manifest.referenceImages || [])
+  ];
+
+  return inputs
+    .filter(input => !fs.existsSync(input.path) || hashFile(input.path).sha256 !== input.sha256)
+    .map(input => input.path);
+}
+
+function hashFile(filePath: string): ManifestFile {
+  const data = fs.readFileSync(filePath);
+  return {
+    path: filePath,
+    sha256: crypto.createHash('sha256').update(data).digest('hex'),
+    size: data.length
+  };
+}
+
+function optionalHash(filePath: string | undefined): ManifestFile | undefined {
+  return filePath && fs.existsSync(filePath) ? hashFile(filePath) : undefined;
+}
+
+function exportPublicKey(key: crypto.KeyObject): string {
+  return key.export({ type: 'spki', format: 'der' }).toString('base64');
+}
+
+function importPublicKey(base64: string): crypto.KeyObject {
+  return crypto.createPublicKey({ key: Buffer.from(base64, 'base64'), format: 'der', type: 'spki' });
+}
+
+function keyId(key: crypto.KeyObject): string {
+  return crypto.createHash('sha256').update(exportPublicKey(key)).digest('hex').slice(0, 16);
+}
+
+/**
+ * JSON with object keys sorted at every level and undefined values dropped,
+ * so the signed bytes do not depend on property order
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, child]) => child !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, child]) => `${JSON.stringify(key)}:${canonicalJson(child)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,247 @@
+/**
+ * Mock Adapter
+ *
+ * Offline provider for development and CI. Renders a deterministic
+ * placeholder PNG from the prompt hash (and request seed) showing the
+ * prompt, template, size and seed (via sharp when installed, otherwise a pattern image
+ * with the details in PNG text chunks).
+ *
+ * Edit requests return the source image (same size) with the instruction
+ * stamped on it, or a pattern image when sharp is not installed.
+ *
+ * Failures can be simulated to exercise fallback on purpose:
+ * - `simulateError: quota | timeout | safety | ...` in config.yaml
+ *   (optionally only for the first `simulateErrorCount` calls)
+ * - `[mock:<error-class>]` anywhere in the prompt
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import {
+  ProviderAdapter,
+  ProviderConfig,
+  ProviderErrorClass,
+  ProviderResponse,
+  ImageGenerationRequest
+} from './types';
+import { imageDimensions, sleep } from './provider-adapter';
+import { ProviderError } from './provider-errors';
+import { encodePng, textChunk } from './png-utils';
+import { dimensionsFor, loadSharp } from './image-processing';
+
+const DEFAULT_SIZE = 512;
+const ERROR_CLASSES: ProviderErrorClass[] = ['auth', 'quota', 'safety', 'invalid-request', 'timeout', 'transient', 'unknown'];
+
+interface PlaceholderDetails {
+  prompt: string;
+  template: string;
+  width: number;
+  height: number;
+  seed: number;
+  hash: Buffer;
+  source?: Buffer;
+}
+
+export class MockAdapter implements ProviderAdapter {
+  readonly name = 'mock';
+  private callCounts: Map<string, number> = new Map();
+
+  async generate(provider: ProviderConfig, request: ImageGenerationRequest): Promise<ProviderResponse> {
+    const calls = (this.callCounts.get(provider.name) || 0) + 1;
+    this.callCounts.set(provider.name, calls);
+
+    if (provider.latencyMs) {
+      await sleep(provider.latencyMs, request.signal);
+    }
+
+    const simulated = this.simulatedError(provider, request, calls);
+    if (simulated) {
+      throw simulated;
+    }
+
+    // Edits keep the source image's size
+    const source = request.mode === 'edit' && request.sourceImagePath
+      ? fs.readFileSync(request.sourceImagePath)
+      : undefined;
+    const size = (source && imageDimensions(source)) || (request.aspectRatio || request.resolution
+      ? dimensionsFor(request.aspectRatio, request.resolution, DEFAULT_SIZE)
+      : { width: provider.width || DEFAULT_SIZE, height: provider.height || DEFAULT_SIZE });
+    const { width, height } = size;
+    const template = request.template || 'none';
+    const hashInput = [request.prompt, template, request.type || '', width, height];
+    if (source) {
+      hashInput.push(crypto.createHash('sha256').update(source).digest('hex'));
+    }
+
+    // Without a seed, one is derived from the inputs; passing it back reproduces the same image
+    const seed = request.seed ?? crypto.createHash('sha256').update(hashInput.join('\n')).digest().readUInt32BE(0);
+    const hash = crypto.createHash('sha256').update([...hashInput, seed].join('\n')).digest();
+
+    const details: PlaceholderDetails = {
+      prompt: request.prompt,
+      template,
+      width,
+      height,
+      seed,
+      hash,
+      source
+    };
+
+    const promptTokens = request.prompt.split(/\s+/).filter(Boolean).length;
+
+    return {
+      data: await this.render(details),
+      mimeType: 'image/png',
+      model: provider.model || 'mock-placeholder',
+      seed: details.seed,
+      usage: { inputTokens: promptTokens, outputTokens: 0, totalTokens: promptTokens }
+    };
+  }
+
+  /**
+   * Failure to simulate for this call, if any
+   */
+  private simulatedError(provider: ProviderConfig, request: ImageGenerationRequest, calls: number): ProviderError | null {
+    const marker = request.prompt.match(/\[mock:([a-z-]+)\]/)?.[1] as ProviderErrorClass | undefined;
+    const configured = provider.simulateError &&
+      (!provider.simulateErrorCount || calls <= provider.simulateErrorCount)
+      ? provider.simulateError
+      : undefined;
+
+    const errorClass = marker && ERROR_CLASSES.includes(marker) ? marker : configured;
+    switch (errorClass) {
+      case undefined:
+        return null;
+      case 'quota':
+        return new ProviderError('HTTP 429: simulated rate limit', 'quota', { status: 429, retryAfterMs: 1000 });
+      case 'timeout':
+        return new ProviderError('Simulated timeout', 'timeout');
+      case 'safety':
+        return new ProviderError('Simulated safety block', 'safety');
+      default:
+        return new ProviderError(`Simulated ${errorClass} error`, errorClass);
+    }
+  }
+
+  /**
+   * Render the placeholder (labelled SVG via sharp, or a plain pattern PNG)
+   */
+  private async render(details: PlaceholderDetails): Promise<Buffer> {
+    const sharp = await loadSharp();
+
+    if (sharp) {
+      try {
+        if (details.source) {
+          return await sharp(details.source)
+            .composite([{ input: Buffer.from(this.buildEditSvg(details)), left: 0, top: 0 }])
+            .png()
+            .toBuffer();
+        }
+        return await sharp(Buffer.from(this.buildSvg(details))).png().toBuffer();
+      } catch {
+        // Fall through to the dependency-free pattern
+      }
+    }
+
+    return this.renderPattern(details);
+  }
+
+  private buildSvg(details: PlaceholderDetails): string {
+    const { width, height, hash } = details;
+    const hue = Math.round((hash[4] / 255) * 360);
+    const fontSize = Math.max(12, Math.round(width / 28));
+    const lineHeight = Math.round(fontSize * 1.4);
+
+    const lines = [
+      ...this.wrap(details.prompt, Math.floor(width / (fontSize * 0.6)), 8),
+      '',
+      `template: ${details.template}`,
+      `size: ${width}x${height}`,
+      `seed: ${details.seed}`
+    ];
+
+    const text = lines
+      .map((line, i) => `<text x="${fontSize}" y="${fontSize * 2 + i * lineHeight}">${escapeXml(line)}</text>`)
+      .join('');
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<rect width="100%" height="100%" fill="hsl(${hue}, 45%, 30%)"/>` +
+      `<rect x="${fontSize / 2}" y="${fontSize / 2}" width="${width - fontSize}" height="${height - fontSize}" ` +
+      `fill="none" stroke="hsl(${hue}, 60%, 70%)" stroke-width="2" stroke-dasharray="8 6"/>` +
+      `<g font-family="sans-serif" font-size="${fontSize}" fill="#ffffff">${text}</g>` +
+      `</svg>`;
+  }
+
+  /**
+   * Instruction banner stamped over the source image of an edit
+   */
+  private buildEditSvg(details: PlaceholderDetails): string {
+    const { width, height } = details;
+    const fontSize = Math.max(12, Math.round(width / 32));
+    const lines = [`edit: ${this.wrap(details.prompt, Math.floor(width / (fontSize * 0.6)) - 6, 1)[0] || ''}`, `seed: ${details.seed}`];
+    const barHeight = Math.round(fontSize * 1.4 * lines.length + fontSize);
+
+    const text = lines
+      .map((line, i) => `<text x="${fontSize / 2}" y="${fontSize * 1.5 + i * fontSize * 1.4}">${escapeXml(line)}</text>`)
+      .join('');
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<rect width="${width}" height="${barHeight}" fill="rgba(0,0,0,0.65)"/>` +
+      `<g font-family="sans-serif" font-size="${fontSize}" fill="#ffffff">${text}</g>` +
+      `</svg>`;
+  }
+
+  /**
+   * 8x8 identicon-style pattern coloured from the hash
+   */
+  private renderPattern(details: PlaceholderDetails): Buffer {
+    const { width, height, hash } = details;
+    const rgb = Buffer.alloc(width * height * 3);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const cell = Math.floor((y * 8) / height) * 8 + Math.floor((x * 8) / width);
+        const on = (hash[cell % 32] >> (cell % 8)) & 1;
+        const offset = (y * width + x) * 3;
+        rgb[offset] = on ? hash[0] : hash[0] >> 2;
+        rgb[offset + 1] = on ? hash[1] : hash[1] >> 2;
+        rgb[offset + 2] = on ? hash[2] : hash[2] >> 2;
+      }
+    }
+
+    return encodePng(width, height, rgb, [
+      textChunk('Prompt', details.prompt.replace(/[^\x20-\x7e]/g, '?')),
+      textChunk('Template', details.template),
+      textChunk('Size', `${width}x${height}`),
+      textChunk('Seed', String(details.seed))
+    ]);
+  }
+
+  private wrap(text: string, maxChars: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      if (current && (current + ' ' + word).length > maxChars) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) lines.push(current);
+
+    if (lines.length > maxLines) {
+      return [...lines.slice(0, maxLines - 1), `${lines[maxLines - 1].slice(0, maxChars - 1)}…`];
+    }
+    return lines;
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
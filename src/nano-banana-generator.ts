@@ -9,11 +9,27 @@
  * 2. Composite them into a 2x2 grid
  * 3. Save both individual images and the composite grid
  *
+ * Requests go through the shared per-provider rate limiter (keyed "gemini"),
+ * so grid generation respects the same limits as orchestrator generations.
+ *
+ * `signal` / `timeoutMs` abort in-flight requests; a cancelled grid removes
+ * the tiles it already wrote.
+ *
+ * `events` receives tile-complete, composite-done and finished progress events.
+ *
  * This matches the web UI implementation at /illustrations
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { RateLimiter } from './rate-limiter';
+import { parseRetryAfter } from './provider-errors';
+import { sleep } from './provider-adapter';
+import { compositeGrid } from './image-processing';
+import { GenerationAbortedError, abortReason, createGenerationSignal, throwIfAborted } from './cancellation';
+import { ProgressEmitter } from './progress-events';
+import { Logger, defaultLogger, redactSecrets } from './logger';
+import { ManifestDetails, ManifestSigner } from './manifest-signer';
 
 // Model configuration
 const NANO_BANANA_MODEL = 'gemini-2.0-flash-preview-image-generation';
@@ -22,6 +38,9 @@ const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models
 // Generation settings
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 2000;
+const RATE_LIMIT_PROVIDER = 'gemini';
+// Spacing between tiles when no `gemini` rate limit is configured
+const TILE_SPACING_MS = 1500;
 
 // Resolution configurations
 const RESOLUTION_CONFIG = {
@@ -38,6 +57,13 @@ export interface GenerationOptions {
   resolution?: Resolution;
   referenceImageBase64?: string;
   domainKnowledge?: string;
+  rateLimiter?: RateLimiter;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  events?: ProgressEmitter;
+  logger?: Logger;
+  // Signs {grid}.manifest.json when set; details describe the template inputs
+  manifest?: { signer: ManifestSigner; details: Omit<ManifestDetails, 'kind'> };
 }
 
 export interface GenerationResult {
@@ -49,6 +75,9 @@ export interface GenerationResult {
   failedCount?: number;
   resolution?: Resolution;
   errors?: string[];
+  cancelled?: boolean;
+  timedOut?: boolean;
+  manifestPath?: string;
 }
 
 const AUDIENCE_STYLES: Record<string, string> = {
@@ -70,9 +99,17 @@ const PROMPT_VARIATIONS = [
 
 async function generateSingleImage(
   prompt: string,
-  options: { apiKey: string; referenceImageBase64?: string; systemInstruction?: string }
+  options: {
+    apiKey: string;
+    rateLimiter: RateLimiter;
+    signal?: AbortSignal;
+    referenceImageBase64?: string;
+    systemInstruction?: string;
+    logger: Logger;
+  }
 ): Promise<{ success: boolean; imageBase64?: string; error?: string }> {
-  const url = `${GEMINI_API_BASE}/${NANO_BANANA_MODEL}:generateContent?key=${options.apiKey}`;
+  // Key in a header rather than the URL, so it never shows up in error messages
+  const url = `${GEMINI_API_BASE}/${NANO_BANANA_MODEL}:generateContent`;
 
   const parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> = [];
 
@@ -107,79 +144,63 @@ async function generateSingleImage(
 
   let lastError = '';
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+    let retryAfterMs: number | undefined;
+    const release = await options.rateLimiter.acquire(RATE_LIMIT_PROVIDER, options.signal);
     try {
       const response = await fetch(url, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': options.apiKey },
         body: JSON.stringify(requestBody),
+        signal: options.signal,
       });
 
       if (!response.ok) {
-        lastError = `HTTP ${response.status}: ${await response.text()}`;
-        console.error(`[NanoBanana] Attempt ${attempt}/${MAX_RETRIES} failed: ${lastError}`);
-        if (attempt < MAX_RETRIES) {
-          await sleep(RETRY_DELAY_MS * Math.pow(2, attempt - 1));
-          continue;
-        }
-        return { success: false, error: lastError };
-      }
+        lastError = redactSecrets(`HTTP ${response.status}: ${await response.text()}`);
+        options.logger.warn(`Attempt ${attempt}/${MAX_RETRIES} failed: ${lastError}`);
 
-      const result = await response.json() as {
-        candidates?: Array<{ content?: { parts?: Array<{ inlineData?: { data: string } }> } }>;
-      };
+        // Retry-After pauses every caller of the limiter, not just this loop
+        retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+        if (retryAfterMs !== undefined) {
+          options.rateLimiter.penalize(RATE_LIMIT_PROVIDER, retryAfterMs);
+        }
+      } else {
+        const result = await response.json() as {
+          candidates?: Array<{ content?: { parts?: Array<{ inlineData?: { data: string } }> } }>;
+        };
+
+        const imageData = result.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        if (!imageData) {
+          return { success: false, error: 'No image data in response' };
+        }
 
-      const imageData = result.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (!imageData) {
-        return { success: false, error: 'No image data in response' };
+        return { success: true, imageBase64: imageData };
       }
-
-      return { success: true, imageBase64: imageData };
     } catch (error) {
-      lastError = error instanceof Error ? error.message : String(error);
-      console.error(`[NanoBanana] Attempt ${attempt}/${MAX_RETRIES} error: ${lastError}`);
-      if (attempt < MAX_RETRIES) {
-        await sleep(RETRY_DELAY_MS * Math.pow(2, attempt - 1));
-      }
+      // Cancellation ends the whole grid, not just this attempt
+      throwIfAborted(options.signal);
+      lastError = redactSecrets(error instanceof Error ? error.message : String(error));
+      options.logger.warn(`Attempt ${attempt}/${MAX_RETRIES} error: ${lastError}`);
+    } finally {
+      release();
+    }
+
+    // With Retry-After the limiter already holds the next attempt back
+    if (attempt < MAX_RETRIES && retryAfterMs === undefined) {
+      await sleep(RETRY_DELAY_MS * Math.pow(2, attempt - 1), options.signal);
     }
   }
 
   return { success: false, error: lastError };
 }
 
-async function compositeToGrid(images: Buffer[], resolution: Resolution = '2K'): Promise<Buffer> {
+async function compositeToGrid(images: Buffer[], resolution: Resolution, logger: Logger): Promise<Buffer> {
   const config = RESOLUTION_CONFIG[resolution];
-  const tileSize = config.tileSize;
-  const gap = config.gap;
-  const gridSize = tileSize * 2 + gap;
 
   try {
-    const sharp = await import('sharp').then(m => m.default).catch(() => null);
-
-    if (sharp) {
-      while (images.length < 4) images.push(images[0] || Buffer.alloc(0));
-
-      const resizedImages = await Promise.all(
-        images.slice(0, 4).map(async (img) => {
-          try {
-            return await sharp(img).resize(tileSize, tileSize, { fit: 'cover' }).png().toBuffer();
-          } catch { return img; }
-        })
-      );
-
-      return await sharp({
-        create: { width: gridSize, height: gridSize, channels: 4, background: { r: 26, g: 35, b: 50, alpha: 1 } },
-      })
-        .composite([
-          { input: resizedImages[0], left: 0, top: 0 },
-          { input: resizedImages[1], left: tileSize + gap, top: 0 },
-          { input: resizedImages[2], left: 0, top: tileSize + gap },
-          { input: resizedImages[3], left: tileSize + gap, top: tileSize + gap },
-        ])
-        .png({ compressionLevel: 9 })
-        .toBuffer();
-    }
+    while (images.length < 4) images.push(images[0] || Buffer.alloc(0));
+    return await compositeGrid(images.slice(0, 4), { tileSize: config.tileSize, gap: config.gap, columns: 2 });
   } catch (e) {
-    console.warn(`[NanoBanana] Sharp not available: ${e}`);
+    logger.warn(`Sharp not available: ${e}`);
   }
   return images[0] || Buffer.alloc(0);
 }
@@ -215,18 +236,16 @@ function getApiKey(): string | null {
   return process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY || null;
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 export async function generateStyleReferenceGrid(
   outputDir: string,
   baseName: string,
   options: GenerationOptions
 ): Promise<GenerationResult> {
+  const startedAt = Date.now();
+  const logger = (options.logger || defaultLogger()).child('NanoBanana');
   const apiKey = getApiKey();
   if (!apiKey) {
-    return { success: false, errors: ['No API key. Set GOOGLE_API_KEY or GEMINI_API_KEY.'] };
+    return finishGrid(options, { success: false, errors: ['No API key. Set GOOGLE_API_KEY or GEMINI_API_KEY.'] }, startedAt);
   }
 
   const resolution: Resolution = options.resolution || '2K';
@@ -234,25 +253,75 @@ export async function generateStyleReferenceGrid(
 
   if (!fs.existsSync(outputDir)) fs.mkdirSync(outputDir, { recursive: true });
 
-  console.log(`[NanoBanana] Generating style reference: ${baseName}`);
-  console.log(`  Description: ${options.description || 'default'}`);
-  console.log(`  Audience: ${options.audience || 'competitive'}`);
-  console.log(`  Resolution: ${resolution} (${config.tileSize * 2 + config.gap}px grid)`);
+  logger.info(`Generating style reference: ${baseName}`, {
+    description: options.description || 'default',
+    audience: options.audience || 'competitive',
+    resolution: `${resolution} (${config.tileSize * 2 + config.gap}px grid)`,
+  });
+
+  const generationSignal = createGenerationSignal(options.signal, options.timeoutMs);
+  try {
+    const result = await generateTiles(outputDir, baseName, options, apiKey, resolution, logger, generationSignal.signal);
+    return finishGrid(options, result, startedAt);
+  } finally {
+    generationSignal.dispose();
+  }
+}
+
+/**
+ * Emit the finished event for a grid and return its result
+ */
+function finishGrid(options: GenerationOptions, result: GenerationResult, startedAt: number): GenerationResult {
+  options.events?.emit('finished', {
+    kind: 'grid',
+    success: result.success,
+    path: result.gridPath,
+    provider: 'gemini',
+    error: result.success ? undefined : result.errors?.join('; '),
+    cancelled: result.cancelled,
+    timedOut: result.timedOut,
+    durationMs: Date.now() - startedAt,
+  });
+  return result;
+}
 
+async function generateTiles(
+  outputDir: string,
+  baseName: string,
+  options: GenerationOptions,
+  apiKey: string,
+  resolution: Resolution,
+  logger: Logger,
+  signal?: AbortSignal
+): Promise<GenerationResult> {
   const individualImages: Buffer[] = [];
   const individualPaths: string[] = [];
   const errors: string[] = [];
   let generatedCount = 0;
 
+  const rateLimiter = options.rateLimiter || RateLimiter.shared();
+
   for (let i = 0; i < PROMPT_VARIATIONS.length; i++) {
     const prompt = buildPrompt(PROMPT_VARIATIONS[i], options);
-    console.log(`[NanoBanana] Generating image ${i + 1}/4...`);
+    logger.info(`Generating image ${i + 1}/4...`);
 
-    const result = await generateSingleImage(prompt, {
-      apiKey,
-      referenceImageBase64: options.referenceImageBase64,
-      systemInstruction: options.domainKnowledge,
-    });
+    let result: Awaited<ReturnType<typeof generateSingleImage>>;
+    try {
+      if (i > 0 && !rateLimiter.hasLimit(RATE_LIMIT_PROVIDER)) {
+        await sleep(TILE_SPACING_MS, signal);
+      }
+      result = await generateSingleImage(prompt, {
+        apiKey,
+        rateLimiter,
+        signal,
+        referenceImageBase64: options.referenceImageBase64,
+        systemInstruction: options.domainKnowledge,
+        logger,
+      });
+    } catch (error) {
+      if (!(error instanceof GenerationAbortedError)) throw error;
+      return abortGrid(error, individualPaths, resolution, errors, logger);
+    }
 
     if (result.success && result.imageBase64) {
       const buffer = Buffer.from(result.imageBase64, 'base64');
@@ -262,32 +331,52 @@ export async function generateStyleReferenceGrid(
       fs.writeFileSync(indPath, buffer);
       individualPaths.push(indPath);
       generatedCount++;
-      console.log(`  OK Image ${i + 1} (${Math.round(buffer.length / 1024)} KB)`);
+      logger.info(`OK Image ${i + 1} (${Math.round(buffer.length / 1024)} KB)`);
+      options.events?.emit('tile-complete', { index: i + 1, total: PROMPT_VARIATIONS.length, success: true, path: indPath });
     } else {
       errors.push(`Image ${i + 1}: ${result.error}`);
-      console.log(`  FAIL Image ${i + 1}: ${result.error}`);
+      logger.warn(`FAIL Image ${i + 1}: ${result.error}`);
+      options.events?.emit('tile-complete', { index: i + 1, total: PROMPT_VARIATIONS.length, success: false, error: result.error });
     }
-
-    if (i < PROMPT_VARIATIONS.length - 1) await sleep(1500);
   }
 
   if (individualImages.length === 0) {
     return { success: false, generatedCount: 0, failedCount: 4, resolution, errors };
   }
 
-  console.log(`[NanoBanana] Compositing ${individualImages.length} images at ${resolution}...`);
+  logger.info(`Compositing ${individualImages.length} images at ${resolution}...`);
 
   try {
-    const gridBuffer = await compositeToGrid(individualImages, resolution);
+    const gridBuffer = await compositeToGrid(individualImages, resolution, logger);
+    if (signal?.aborted) {
+      return abortGrid(abortReason(signal), individualPaths, resolution, errors, logger);
+    }
+
     const gridPath = path.join(outputDir, `${baseName}.png`);
     fs.writeFileSync(gridPath, gridBuffer);
 
     const gridSizeKB = Math.round(gridBuffer.length / 1024);
-    console.log(`[NanoBanana] Grid saved: ${gridPath} (${gridSizeKB} KB)`);
+    logger.info(`Grid saved: ${gridPath} (${gridSizeKB} KB)`);
+    options.events?.emit('composite-done', { path: gridPath, tiles: individualImages.length, sizeKB: gridSizeKB });
+
+    let manifestPath: string | undefined;
+    if (options.manifest) {
+      try {
+        manifestPath = options.manifest.signer.sign(gridPath, {
+          ...options.manifest.details,
+          kind: 'style-reference',
+          provider: 'gemini',
+          model: NANO_BANANA_MODEL,
+        });
+      } catch (error) {
+        logger.warn(`Failed to sign manifest for ${gridPath}`, error);
+      }
+    }
 
     return {
       success: true,
       gridPath,
+      manifestPath,
       individualPaths,
       gridSizeKB,
       generatedCount,
@@ -301,6 +390,32 @@ export async function generateStyleReferenceGrid(
   }
 }
 
+/**
+ * Remove the tiles of a cancelled grid and report why it stopped
+ */
+function abortGrid(
+  reason: GenerationAbortedError,
+  individualPaths: string[],
+  resolution: Resolution,
+  errors: string[],
+  logger: Logger
+): GenerationResult {
+  logger.info(`${reason.message}, removing ${individualPaths.length} partial image(s)`);
+  for (const indPath of individualPaths) {
+    fs.rmSync(indPath, { force: true });
+  }
+
+  return {
+    success: false,
+    generatedCount: 0,
+    failedCount: 4,
+    resolution,
+    errors: [...errors, reason.message],
+    cancelled: reason.kind === 'cancelled',
+    timedOut: reason.kind === 'timed-out',
+  };
+}
+
 export function isGenerationAvailable(): { available: boolean; reason?: string } {
   const apiKey = getApiKey();
   if (!apiKey) return { available: false, reason: 'No API key. Set GOOGLE_API_KEY.' };
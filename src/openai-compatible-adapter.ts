@@ -0,0 +1,166 @@
+/**
+ * OpenAI-Compatible Adapter
+ *
+ * Generic adapter for gateways that speak the OpenAI Images API
+ * (`POST {baseUrl}/images/generations`, and multipart `/images/edits`
+ * for edit requests with an optional mask). Configured per provider with
+ * `type: openai-compatible`, `baseUrl`, optional `headers`, `model` and
+ * `responseFormat` (b64_json or url).
+ *
+ * Aspect ratios map to the nearest Images API size (square, landscape or
+ * portrait); the provider manager crops or pads the remainder.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ProviderAdapter,
+  ProviderConfig,
+  ProviderResponse,
+  ImageGenerationRequest
+} from './types';
+import {
+  fetchImage,
+  getJson,
+  mimeTypeFromPath,
+  postForm,
+  postJson,
+  resolveBaseUrl,
+  sniffMimeType
+} from './provider-adapter';
+import { ProviderError } from './provider-errors';
+import { nearestAspectRatio } from './image-processing';
+
+const OPENAI_API_BASE = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-image-1';
+const IMAGE_SIZES: Record<string, string> = {
+  '1:1': '1024x1024',
+  '3:2': '1536x1024',
+  '2:3': '1024x1536'
+};
+
+interface ImagesResponse {
+  data?: Array<{ b64_json?: string; url?: string; revised_prompt?: string }>;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+export class OpenAICompatibleAdapter implements ProviderAdapter {
+  readonly name = 'openai-compatible';
+
+  async generate(provider: ProviderConfig, request: ImageGenerationRequest): Promise<ProviderResponse> {
+    const model = provider.model || DEFAULT_MODEL;
+
+    // The Images API has no system role, so domain knowledge leads the prompt
+    const prompt = request.systemInstruction
+      ? `${request.systemInstruction.trim()}\n\n${request.prompt}`
+      : request.prompt;
+
+    const body: Record<string, unknown> = { model, prompt, n: 1 };
+    if (provider.responseFormat) {
+      body.response_format = provider.responseFormat;
+    }
+
+    const sizeRatio = request.aspectRatio && nearestAspectRatio(request.aspectRatio, Object.keys(IMAGE_SIZES));
+    if (sizeRatio) {
+      body.size = IMAGE_SIZES[sizeRatio];
+    }
+
+    const response = request.mode === 'edit'
+      ? await this.postEdit(provider, request, body)
+      : await postJson<ImagesResponse>(
+        `${resolveBaseUrl(provider, OPENAI_API_BASE)}/images/generations`,
+        body,
+        this.buildHeaders(provider),
+        request.signal
+      );
+
+    return {
+      ...(await this.readImage(response, request.signal)),
+      model,
+      usage: response.usage && {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        totalTokens: response.usage.total_tokens
+      }
+    };
+  }
+
+  /**
+   * Health probe: list models (gateways without a models endpoint pass on 404)
+   */
+  async probe(provider: ProviderConfig, signal?: AbortSignal): Promise<void> {
+    try {
+      await getJson(`${resolveBaseUrl(provider, OPENAI_API_BASE)}/models`, this.buildHeaders(provider), signal);
+    } catch (error) {
+      if (!(error instanceof ProviderError && error.status === 404)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Edit request: the same fields as multipart form data plus the source image and mask
+   */
+  private async postEdit(
+    provider: ProviderConfig,
+    request: ImageGenerationRequest,
+    fields: Record<string, unknown>
+  ): Promise<ImagesResponse> {
+    if (!request.sourceImagePath) {
+      throw new ProviderError('Edit requests need a source image', 'invalid-request');
+    }
+
+    const form = new FormData();
+    for (const [key, value] of Object.entries(fields)) {
+      form.append(key, String(value));
+    }
+    form.append('image', fileBlob(request.sourceImagePath), path.basename(request.sourceImagePath));
+    if (request.maskPath) {
+      form.append('mask', fileBlob(request.maskPath), path.basename(request.maskPath));
+    }
+
+    return postForm<ImagesResponse>(
+      `${resolveBaseUrl(provider, OPENAI_API_BASE)}/images/edits`,
+      form,
+      this.buildHeaders(provider),
+      request.signal
+    );
+  }
+
+  /**
+   * Bearer auth (when an API key is set) plus configured headers
+   */
+  private buildHeaders(provider: ProviderConfig): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (provider.apiKey) {
+      headers.Authorization = `Bearer ${provider.apiKey}`;
+    }
+    return { ...headers, ...provider.headers };
+  }
+
+  /**
+   * Decode b64_json or download the url of the first image
+   */
+  private async readImage(response: ImagesResponse, signal?: AbortSignal): Promise<{ mimeType: string; data: Buffer }> {
+    const image = response.data?.[0];
+
+    if (image?.b64_json) {
+      const data = Buffer.from(image.b64_json, 'base64');
+      return { mimeType: sniffMimeType(data), data };
+    }
+
+    if (image?.url) {
+      return fetchImage(image.url, signal);
+    }
+
+    throw new ProviderError('No image data in response', 'unknown');
+  }
+}
+
+function fileBlob(filePath: string): Blob {
+  return new Blob([fs.readFileSync(filePath)], { type: mimeTypeFromPath(filePath) });
+}
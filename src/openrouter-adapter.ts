@@ -0,0 +1,143 @@
+/**
+ * OpenRouter Adapter
+ *
+ * Native adapter for OpenRouter's chat completions API with image output
+ * (`modalities: ['image', 'text']`). Images come back as base64 data URLs.
+ * Aspect ratio and resolution are sent as `image_config` (Gemini ratios).
+ */
+
+import * as fs from 'fs';
+import {
+  ProviderAdapter,
+  ProviderConfig,
+  ProviderResponse,
+  ImageGenerationRequest
+} from './types';
+import {
+  EDIT_MASK_INSTRUCTION,
+  EDIT_SOURCE_INSTRUCTION,
+  decodeDataUrl,
+  getJson,
+  postJson,
+  readImageBase64,
+  resolveBaseUrl
+} from './provider-adapter';
+import { ProviderError } from './provider-errors';
+import { GEMINI_ASPECT_RATIOS } from './gemini-adapter';
+import { nearestAspectRatio } from './image-processing';
+
+const OPENROUTER_API_BASE = 'https://openrouter.ai/api/v1';
+const DEFAULT_MODEL = 'google/gemini-3-pro-image-preview';
+
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      images?: Array<{ image_url?: { url: string } }>;
+    };
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+export class OpenRouterAdapter implements ProviderAdapter {
+  readonly name = 'openrouter';
+
+  async generate(provider: ProviderConfig, request: ImageGenerationRequest): Promise<ProviderResponse> {
+    if (!provider.apiKey) {
+      throw new ProviderError('API key not configured', 'auth');
+    }
+
+    const model = provider.model || DEFAULT_MODEL;
+    const content: ContentPart[] = [];
+
+    if (request.mode === 'edit' && request.sourceImagePath) {
+      // Edits send the source (and mask) instead of a style reference
+      content.push(imagePart(request.sourceImagePath));
+      content.push({ type: 'text', text: EDIT_SOURCE_INSTRUCTION });
+      if (request.maskPath) {
+        content.push(imagePart(request.maskPath));
+        content.push({ type: 'text', text: EDIT_MASK_INSTRUCTION });
+      }
+    } else if (request.styleGridPath && fs.existsSync(request.styleGridPath)) {
+      content.push(imagePart(request.styleGridPath));
+      content.push({
+        type: 'text',
+        text: 'Match the visual style, colours, composition shown in this reference. Generate a NEW image following this visual language.'
+      });
+    }
+
+    content.push({ type: 'text', text: request.prompt });
+
+    const messages: Array<{ role: string; content: string | ContentPart[] }> = [];
+    if (request.systemInstruction) {
+      messages.push({ role: 'system', content: request.systemInstruction });
+    }
+    messages.push({ role: 'user', content });
+
+    const body: Record<string, unknown> = { model, messages, modalities: ['image', 'text'] };
+    if (request.seed !== undefined) {
+      body.seed = request.seed;
+    }
+
+    const aspectRatio = request.aspectRatio && nearestAspectRatio(request.aspectRatio, GEMINI_ASPECT_RATIOS);
+    if (aspectRatio || request.resolution) {
+      body.image_config = { aspect_ratio: aspectRatio || undefined, image_size: request.resolution };
+    }
+
+    const response = await postJson<ChatCompletionResponse>(
+      `${resolveBaseUrl(provider, OPENROUTER_API_BASE)}/chat/completions`,
+      body,
+      { Authorization: `Bearer ${provider.apiKey}` },
+      request.signal
+    );
+
+    const imageUrl = response.choices?.[0]?.message?.images?.find(image => image.image_url?.url)?.image_url?.url;
+    const image = imageUrl ? decodeDataUrl(imageUrl) : null;
+
+    if (!image) {
+      // Models answer refusals with text only; keep it for the attempt log
+      const text = response.choices?.[0]?.message?.content;
+      throw new ProviderError(text ? `No image data in response: ${text}` : 'No image data in response', 'unknown');
+    }
+
+    return {
+      data: image.data,
+      mimeType: image.mimeType,
+      model: response.model || model,
+      usage: response.usage && {
+        inputTokens: response.usage.prompt_tokens,
+        outputTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens
+      }
+    };
+  }
+
+  /**
+   * Health probe: validate the API key
+   */
+  async probe(provider: ProviderConfig, signal?: AbortSignal): Promise<void> {
+    if (!provider.apiKey) {
+      throw new ProviderError('API key not configured', 'auth');
+    }
+    await getJson(`${resolveBaseUrl(provider, OPENROUTER_API_BASE)}/key`, {
+      Authorization: `Bearer ${provider.apiKey}`
+    }, signal);
+  }
+}
+
+/**
+ * Image file as a data URL content part
+ */
+function imagePart(filePath: string): ContentPart {
+  const image = readImageBase64(filePath);
+  return { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } };
+}
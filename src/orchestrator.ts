@@ -4,8 +4,21 @@
  * Coordinates:
  * - Configuration loading (ConfigLoader)
  * - Template loading with caching (TemplateLoader)
+ * - Prompt composition from template prompts and style guides (PromptComposer)
  * - Provider selection with fallback (ProviderManager)
- * - CLI execution and result handling
+ * - Provider adapter execution and result handling
+ * - Batch generation from CSV / JSONL manifests
+ * - Multiple variants per request with a labelled contact sheet
+ * - Edit mode (source image + optional mask), saved next to the original
+ * - Result snapshots (ResultStore) and exact replay by result id
+ * - Dry runs (explain) that resolve a request without calling a provider
+ * - Typed progress events (orchestrator.events)
+ * - Post-processing (resize, format, flatten, trim, sharpen) after generation
+ * - Provenance (prompt, template, provider, seed) embedded in every output
+ * - Signed sidecar manifests (ManifestSigner) with input hashes
+ * - Output names from a pattern under the output root (OutputNamer), never overwriting
+ * - Opt-in result cache (ResultCache): identical requests reuse the stored image
+ * - Generation history (HistoryStore) with a query API
  */
 
 import * as path from 'path';
@@ -14,46 +27,145 @@ import {
   PluginContext,
   ImageGenerationRequest,
   ImageGenerationResult,
-  GlobalConfig
+  GlobalConfig,
+  BatchOptions,
+  BatchReport,
+  BatchRow,
+  BatchRowResult,
+  ReplayOptions,
+  GenerationPlan,
+  FallbackPlan,
+  HistoryEntry,
+  HistoryKind,
+  HistoryQuery,
+  ImageFormat
 } from './types';
 import { ConfigLoader } from './config-loader';
 import { TemplateLoader } from './template-loader';
 import { ProviderManager } from './provider-manager';
+import { CostTracker } from './cost-tracker';
+import { RateLimiter } from './rate-limiter';
+import { ResultStore } from './result-store';
+import { loadBatchManifest } from './batch-manifest';
+import { compositeGrid, dimensionsFor } from './image-processing';
+import { imageDimensions, sniffMimeType } from './provider-adapter';
+import { composePrompt } from './prompt-composer';
+import {
+  FORMAT_EXTENSIONS,
+  FORMAT_MIME_TYPES,
+  postProcessImage,
+  processedPath,
+  validatePostProcess
+} from './post-processor';
+import { embedProvenance } from './provenance';
+import { ManifestSigner } from './manifest-signer';
+import { DEFAULT_OUTPUT_PATTERN, OutputNameVars, OutputNamer, availablePath } from './output-naming';
+import { ResultCache } from './result-cache';
+import { HistoryStore } from './history-store';
+import { ProgressEmitter, ProgressEventMap } from './progress-events';
+import { Logger, defaultLogger } from './logger';
+
+const DEFAULT_BATCH_CONCURRENCY = 3;
+const MAX_VARIANTS = 16;
+const VARIANT_CONCURRENCY = 4;
+const CONTACT_SHEET_TILE_SIZE = 512;
+const CONTACT_SHEET_GAP = 8;
+
+/**
+ * A reserved output path and the naming values it was rendered from
+ */
+interface OutputNaming {
+  reserved: string;
+  vars: OutputNameVars;
+  pattern?: string;
+  explicit?: boolean;
+}
 
 export class ImageOrchestrator {
+  readonly events: ProgressEmitter;
+  readonly signer: ManifestSigner;
+  readonly history: HistoryStore;
   private context: PluginContext;
   private configLoader: ConfigLoader;
   private templateLoader?: TemplateLoader;
   private providerManager?: ProviderManager;
+  private costTracker?: CostTracker;
+  private resultStore?: ResultStore;
+  private outputNamer?: OutputNamer;
+  private resultCache?: ResultCache;
   private config?: GlobalConfig;
+  private rootLogger: Logger;
+  private logger: Logger;
 
   constructor(context: PluginContext) {
     this.context = context;
+    this.rootLogger = context.logger || defaultLogger();
+    this.logger = this.rootLogger.child('Orchestrator');
     this.configLoader = new ConfigLoader(context);
+    this.events = new ProgressEmitter(this.rootLogger);
+    this.signer = new ManifestSigner(context.configDir, this.rootLogger);
+    this.history = new HistoryStore(context.configDir, this.rootLogger);
   }
 
   /**
    * Initialize orchestrator (load config and setup components)
    */
   async initialize(): Promise<void> {
-    console.log('[Orchestrator] Initializing...');
+    this.logger.info('Initializing...');
 
     // Load configuration
     this.config = await this.configLoader.load();
-    console.log(`[Orchestrator] Loaded config: ${this.config.providers.length} providers available`);
+    this.logger.info(`Loaded config: ${this.config.providers.length} providers available`);
 
     // Initialize template loader
     this.templateLoader = new TemplateLoader(
       this.config.repositoryPath,
-      this.config.cacheTTL
+      this.config.cacheTTL,
+      this.rootLogger
     );
 
     // Initialize provider manager
-    this.providerManager = new ProviderManager(this.config.repositoryPath);
+    this.providerManager = this.createProviderManager(this.config);
+    this.resultStore = new ResultStore(this.context.configDir, this.rootLogger);
+    this.configureOutput(this.config);
 
     // Load template registry
     await this.templateLoader.loadRegistry();
-    console.log('[Orchestrator] Initialization complete');
+    this.logger.info('Initialization complete');
+  }
+
+  /**
+   * Create provider manager from configuration
+   */
+  private createProviderManager(config: GlobalConfig): ProviderManager {
+    this.costTracker = new CostTracker(this.context.configDir, config, this.rootLogger);
+
+    // The shared limiter also throttles style reference grid generation
+    const rateLimiter = RateLimiter.shared();
+    rateLimiter.configure(config.rateLimits || []);
+
+    return new ProviderManager(config.repositoryPath, {
+      healthProbes: config.healthProbes,
+      probeTimeoutMs: config.probeTimeoutMs,
+      circuitBreaker: config.circuitBreaker,
+      costTracker: this.costTracker,
+      rateLimiter,
+      events: this.events,
+      logger: this.rootLogger
+    });
+  }
+
+  /**
+   * Output naming and the result cache (off unless `resultCache.enabled`)
+   */
+  private configureOutput(config: GlobalConfig): void {
+    this.outputNamer = new OutputNamer(
+      OutputNamer.resolveBaseDir(this.context.cwd, config.outputDir),
+      config.outputPattern
+    );
+    this.resultCache = config.resultCache?.enabled
+      ? new ResultCache(this.context.configDir, config.resultCache, this.rootLogger)
+      : undefined;
   }
 
   /**
@@ -67,49 +179,864 @@ export class ImageOrchestrator {
 
   /**
    * Generate an image with automatic provider fallback
+   * With `dryRun`, nothing is generated and the result carries the plan from explain()
    */
   async generateImage(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    if (request.dryRun) {
+      const plan = await this.explain(request);
+      return {
+        success: !plan.error,
+        dryRun: true,
+        plan,
+        error: plan.error,
+        errorClass: plan.errorClass
+      };
+    }
+
     await this.ensureInitialized();
+    const startedAt = Date.now();
+
+    // Resolved on a copy: the caller's object may be reused for another generation
+    request = { ...request };
+
+    this.logger.info('Starting image generation', {
+      prompt: `${request.prompt.substring(0, 50)}...`,
+      template: request.template || 'none',
+      provider: request.provider || 'auto',
+      size: request.aspectRatio || request.resolution
+        ? `${request.aspectRatio || 'default'} @ ${request.resolution || 'default'}`
+        : undefined
+    });
+
+    // Copied before resolving, which fills in template defaults
+    const history = { kind: 'image' as HistoryKind, request: withoutSignal(request), resolved: request };
+
+    const resolved = await this.resolveRequest(request);
+    history.resolved = resolved.request;
+    if (resolved.error) {
+      return this.finish('image', { success: false, error: resolved.error }, startedAt, history);
+    }
+    request = resolved.request;
+    const templateVersion = resolved.templateVersion;
+
+    // Generate with provider fallback
+    if (!this.providerManager || !this.config) {
+      return {
+        success: false,
+        error: 'Orchestrator not initialized'
+      };
+    }
 
-    console.log(`[Orchestrator] Starting image generation`);
-    console.log(`  Prompt: ${request.prompt.substring(0, 50)}...`);
-    console.log(`  Template: ${request.template || 'none'}`);
-    console.log(`  Provider: ${request.provider || 'auto'}`);
+    const variantCount = request.count && request.count > 1 ? request.count : 0;
+    const naming = this.assignOutputPath(request, variantCount);
+
+    try {
+      if (variantCount) {
+        const result = await this.generateVariants(request, this.providerManager, this.config, templateVersion);
+        return this.finish('variants', result, startedAt, { ...history, kind: 'variants' });
+      }
 
+      const result = await this.generateOrRestore(request, this.providerManager, this.config);
+      this.renameForResult(naming, result);
+      await this.completeResult(request, result, templateVersion);
+
+      return this.finish('image', result, startedAt, history);
+    } finally {
+      if (naming) {
+        this.outputNamer?.release(naming.reserved);
+      }
+    }
+  }
+
+  /**
+   * Emit the finished event for a result, append it to the history and return it
+   */
+  private finish(
+    kind: ProgressEventMap['finished']['kind'],
+    result: ImageGenerationResult,
+    startedAt: number,
+    history?: { kind: HistoryKind; request: Record<string, unknown>; resolved: ImageGenerationRequest }
+  ): ImageGenerationResult {
+    if (history) {
+      this.history.record({
+        kind: history.kind,
+        success: result.success,
+        request: history.request,
+        prompt: history.resolved.prompt,
+        userPrompt: history.resolved.userPrompt,
+        template: history.resolved.template,
+        provider: result.provider,
+        model: result.model,
+        seed: result.seed,
+        durationMs: Date.now() - startedAt,
+        path: result.path,
+        variantPaths: result.variants?.map(variant => variant.path).filter((p): p is string => p !== undefined),
+        resultId: result.id,
+        replayOf: result.replayOf,
+        cached: result.cached,
+        cost: result.cost,
+        error: result.error,
+        errorClass: result.errorClass,
+        cancelled: result.cancelled,
+        timedOut: result.timedOut
+      });
+    }
+
+    this.events.emit('finished', {
+      kind,
+      success: result.success,
+      path: result.path,
+      provider: result.provider,
+      error: result.error,
+      cancelled: result.cancelled,
+      timedOut: result.timedOut,
+      durationMs: Date.now() - startedAt
+    });
+    return result;
+  }
+
+  /**
+   * Apply the template (composed prompt, domain knowledge, style grid, size
+   * defaults) and edit paths to a request
+   */
+  private async resolveRequest(
+    request: ImageGenerationRequest
+  ): Promise<{ request: ImageGenerationRequest; templateVersion?: string; error?: string }> {
     // Load template if specified
+    let templateVersion: string | undefined;
     if (request.template && this.templateLoader) {
       const template = await this.templateLoader.load(request.template);
       if (!template) {
-        return {
-          success: false,
-          error: `Template not found: ${request.template}`
-        };
+        return { request, error: `Template not found: ${request.template}` };
       }
+      templateVersion = String(template.config.version || '1.0.0');
 
       // Add style grid path if available
       if (template.config.styleGridPath && !request.styleGridPath) {
         request.styleGridPath = template.config.styleGridPath;
       }
+
+      const composed = composePrompt(template, request, this.rootLogger);
+      this.events.emit('template-loaded', {
+        template: request.template,
+        version: templateVersion,
+        sections: composed.sections,
+        styleGridPath: request.styleGridPath
+      });
+
+      // Type prompt + user prompt + style guide (edit instructions are sent as given)
+      if (request.mode !== 'edit') {
+        request = { ...request, userPrompt: request.prompt, prompt: composed.prompt };
+        this.logger.debug(`Composed: ${composed.sections.join(' + ')} (${composed.prompt.length} chars)`);
+      }
+
+      // Domain knowledge becomes the system instruction for native adapters
+      if (composed.systemInstruction && !request.systemInstruction) {
+        request.systemInstruction = composed.systemInstruction;
+      }
+
+      // Output size defaults from config.json (aspect_ratio, resolution, aspect_fit)
+      // Edits keep the source image's size
+      if (request.mode !== 'edit') {
+        request.aspectRatio = request.aspectRatio || template.config.aspect_ratio;
+        request.resolution = request.resolution || template.config.resolution;
+        request.aspectFit = request.aspectFit || template.config.aspect_fit;
+      }
+
+      // A request pipeline replaces the template's (an empty list disables it)
+      request.postProcess = request.postProcess ?? template.config.post_process;
+      request.outputPattern = request.outputPattern ?? template.config.output_pattern;
     }
 
-    // Generate with provider fallback
-    if (!this.providerManager || !this.config) {
+    if (request.postProcess) {
+      const error = validatePostProcess(request.postProcess);
+      if (error) {
+        return { request, error };
+      }
+    }
+
+    if (request.mode === 'edit') {
+      this.prepareEdit(request);
+    }
+
+    return { request, templateVersion };
+  }
+
+  /**
+   * Explain a request without generating anything: the resolved prompt, system
+   * instruction, style reference and size, the fallback chain with provider
+   * health, and the estimated cost
+   */
+  async explain(request: ImageGenerationRequest): Promise<GenerationPlan> {
+    await this.ensureInitialized();
+
+    const resolved = await this.resolveRequest({ ...request });
+    const resolvedRequest = resolved.request;
+    const count = resolvedRequest.count && resolvedRequest.count > 1 ? resolvedRequest.count : 1;
+
+    let fallbackPlan: FallbackPlan;
+    if (resolved.error || !this.providerManager || !this.config) {
+      fallbackPlan = {
+        chain: [],
+        skipped: [],
+        autoFallback: this.config?.autoFallback ?? false,
+        error: resolved.error || 'Orchestrator not initialized'
+      };
+    } else if (count > MAX_VARIANTS) {
+      fallbackPlan = {
+        chain: [],
+        skipped: [],
+        autoFallback: this.config.autoFallback,
+        error: `Too many variants requested: ${count} (maximum ${MAX_VARIANTS})`,
+        errorClass: 'invalid-request'
+      };
+    } else {
+      fallbackPlan = await this.providerManager.explainChain(resolvedRequest, this.config);
+    }
+
+    const { aspectRatio, resolution, aspectFit } = resolvedRequest;
+    const source = resolvedRequest.mode === 'edit' && resolvedRequest.sourceImagePath && fs.existsSync(resolvedRequest.sourceImagePath)
+      ? imageDimensions(fs.readFileSync(resolvedRequest.sourceImagePath))
+      : null;
+    const dimensions = source || (aspectRatio || resolution ? dimensionsFor(aspectRatio, resolution) : {});
+    const expectedCost = fallbackPlan.chain.find(entry => entry.provider === fallbackPlan.expectedProvider)?.estimatedCost;
+
+    return {
+      ...fallbackPlan,
+      prompt: resolvedRequest.prompt,
+      userPrompt: resolvedRequest.userPrompt,
+      systemInstruction: resolvedRequest.systemInstruction,
+      styleGridPath: resolvedRequest.styleGridPath,
+      template: resolvedRequest.template,
+      templateVersion: resolved.templateVersion,
+      type: resolvedRequest.type,
+      mode: resolvedRequest.mode || 'generate',
+      sourceImagePath: resolvedRequest.sourceImagePath,
+      maskPath: resolvedRequest.maskPath,
+      size: { aspectRatio, resolution, aspectFit, ...dimensions },
+      seed: resolvedRequest.seed,
+      count,
+      outputPath: this.previewOutputPath(resolvedRequest, count > 1 ? count : 0, fallbackPlan.expectedProvider),
+      postProcess: resolvedRequest.postProcess,
+      estimatedCost: expectedCost !== undefined ? expectedCost * count : undefined,
+      cached: count === 1 && !resolved.error && this.config && this.resultCache && !resolvedRequest.noCache
+        ? this.resultCache.has(this.cacheKey(resolvedRequest, this.config)) || undefined
+        : undefined
+    };
+  }
+
+  /**
+   * Re-issue a past generation exactly as it was resolved: same prompt, domain
+   * knowledge, style reference snapshot, provider, model and seed (no fallback)
+   * The output defaults to {name}-replay{ext} next to the original
+   */
+  async replay(resultId: string, options: ReplayOptions = {}): Promise<ImageGenerationResult> {
+    await this.ensureInitialized();
+    const startedAt = Date.now();
+
+    if (!this.providerManager || !this.config || !this.resultStore) {
       return {
         success: false,
         error: 'Orchestrator not initialized'
       };
     }
 
-    const result = await this.providerManager.generateWithFallback(request, this.config);
+    const record = this.resultStore.load(resultId);
+    if (!record) {
+      return {
+        success: false,
+        error: `Result not found: ${resultId}`,
+        errorClass: 'invalid-request'
+      };
+    }
+
+    if (!this.config.providers.some(p => p.name === record.provider && p.enabled)) {
+      return {
+        success: false,
+        error: `Provider ${record.provider} is not enabled; cannot replay ${resultId}`,
+        errorClass: 'invalid-request'
+      };
+    }
+
+    this.logger.info(`Replaying ${resultId}`, {
+      provider: `${record.provider}${record.model ? ` (${record.model})` : ''}`,
+      seed: options.seed ?? record.seed ?? 'none',
+      template: record.request.template
+        ? `${record.request.template} v${record.templateVersion || '1.0.0'} (snapshot)`
+        : undefined
+    });
+
+    let outputPath = options.outputPath && path.resolve(this.context.cwd, options.outputPath);
+    if (!outputPath) {
+      const extension = path.extname(record.outputPath) || '.png';
+      outputPath = availablePath(
+        path.join(path.dirname(record.outputPath), `${path.basename(record.outputPath, extension)}-replay`),
+        extension
+      );
+    }
+
+    const request: ImageGenerationRequest = {
+      ...record.request,
+      outputPath,
+      seed: options.seed ?? record.request.seed,
+      signal: options.signal,
+      timeoutMs: options.timeoutMs
+    };
+
+    // Budget or capability filtering can drop the recorded provider, leaving the default as primary
+    const plan = await this.providerManager.explainChain(request, this.config);
+    const primary = plan.chain.find(entry => entry.role === 'primary')?.provider;
+    if (!plan.error && primary !== record.provider) {
+      const reason = plan.skipped.find(skip => skip.provider === record.provider)?.reason;
+      return {
+        success: false,
+        error: `Provider ${record.provider} cannot take this request${reason ? ` (${reason})` : ''}; cannot replay ${resultId}`,
+        errorClass: 'invalid-request'
+      };
+    }
+
+    // Pinned to the recorded provider: a different provider would not be a replay
+    const result = await this.providerManager.generateWithFallback(request, { ...this.config, autoFallback: false });
+    result.replayOf = resultId;
+    await this.completeResult(request, result, record.templateVersion, record.inputs.styleGridPath);
+
+    return this.finish('image', result, startedAt, {
+      kind: 'replay',
+      request: { resultId, ...withoutSignal(options) },
+      resolved: request
+    });
+  }
+
+  /**
+   * Resolve the output path: relative paths against the working directory, and
+   * a missing one from the naming pattern under the output root (reserved until
+   * the generation finishes; variants also need their -n and -contact files free)
+   * An explicit path that is taken moves on to {stem}-2{ext}, ... unless
+   * `overwrite` is set (single images only)
+   */
+  private assignOutputPath(
+    request: ImageGenerationRequest,
+    variantCount: number
+  ): OutputNaming | undefined {
+    if (request.outputPath) {
+      request.outputPath = path.resolve(this.context.cwd, request.outputPath);
+      if (request.overwrite && !variantCount) {
+        return undefined;
+      }
+
+      request.outputPath = this.outputNamer!.reservePath(request.outputPath, variantSuffixes(variantCount));
+      return { reserved: request.outputPath, vars: this.outputNameVars(request), explicit: true };
+    }
+
+    const vars = this.outputNameVars(request);
+    request.outputPath = this.outputNamer!.reserve(vars, request.outputPattern, variantSuffixes(variantCount));
+    return { reserved: request.outputPath, vars, pattern: request.outputPattern };
+  }
+
+  /**
+   * The output path a request would get, without reserving it (for explain)
+   */
+  private previewOutputPath(request: ImageGenerationRequest, variantCount: number, expectedProvider?: string): string {
+    if (!this.outputNamer) {
+      return path.resolve(this.context.cwd, request.outputPath || 'image.png');
+    }
+    if (request.outputPath) {
+      const explicitPath = path.resolve(this.context.cwd, request.outputPath);
+      if (request.overwrite && !variantCount) {
+        return explicitPath;
+      }
+
+      const preview = this.outputNamer.reservePath(explicitPath, variantSuffixes(variantCount));
+      this.outputNamer.release(preview);
+      return preview;
+    }
+
+    const vars = { ...this.outputNameVars(request), provider: request.provider || expectedProvider };
+    const preview = this.outputNamer.reserve(vars, request.outputPattern, variantSuffixes(variantCount));
+    this.outputNamer.release(preview);
+    return preview;
+  }
+
+  private outputNameVars(request: ImageGenerationRequest): OutputNameVars {
+    const format = [...(request.postProcess || [])].reverse().find(step => step.op === 'format');
+    return {
+      prompt: request.userPrompt ?? request.prompt,
+      template: request.template,
+      topic: request.topic,
+      style: request.style,
+      type: request.type,
+      provider: request.provider || this.config?.defaultProvider,
+      model: request.model,
+      seed: request.seed,
+      ext: format?.op === 'format' ? FORMAT_EXTENSIONS[format.format] : '.png'
+    };
+  }
+
+  /**
+   * Generate with fallback, or copy the cached image for an identical resolved request
+   * `noCache` skips the lookup; the fresh result still replaces the cached one
+   */
+  private async generateOrRestore(
+    request: ImageGenerationRequest,
+    providerManager: ProviderManager,
+    config: GlobalConfig
+  ): Promise<ImageGenerationResult> {
+    if (!this.resultCache) {
+      return providerManager.generateWithFallback(request, config);
+    }
+
+    const key = this.cacheKey(request, config);
+    if (!request.noCache) {
+      const cached = this.resultCache.restore(key, request.outputPath!);
+      if (cached) {
+        this.logger.info(`Cache hit: ${key.slice(0, 12)} (${cached.provider}), no provider call`);
+        return cached;
+      }
+    }
+
+    const result = await providerManager.generateWithFallback(request, config);
+    // A fallback provider's image would later be served as the requested provider's
+    if (result.provider === ResultCache.keyProvider(request, config)) {
+      this.resultCache.store(key, result);
+    } else if (result.success) {
+      this.logger.debug(`Not caching ${result.provider} output under a ${ResultCache.keyProvider(request, config)} key`);
+    }
+    return result;
+  }
+
+  private cacheKey(request: ImageGenerationRequest, config: GlobalConfig): string {
+    const templateDir = request.template ? path.join(config.repositoryPath, 'templates', request.template) : undefined;
+    return ResultCache.key(request, config, templateDir);
+  }
+
+  /**
+   * Move a generated file when the pattern names the provider, model or seed and
+   * the result differs from what was assumed (fallback, random seed)
+   */
+  private renameForResult(naming: OutputNaming | undefined, result: ImageGenerationResult): void {
+    if (!naming || naming.explicit || !result.success || !result.path || !this.outputNamer) {
+      return;
+    }
+
+    const vars: OutputNameVars = {
+      ...naming.vars,
+      provider: result.provider ?? naming.vars.provider,
+      model: result.model ?? naming.vars.model,
+      seed: result.seed ?? naming.vars.seed
+    };
+    const pattern = naming.pattern;
+    if (this.outputNamer.render(vars, pattern, 1) === this.outputNamer.render(naming.vars, pattern, 1)) {
+      return;
+    }
+
+    const finalPath = this.outputNamer.reserve(vars, pattern);
+    try {
+      fs.renameSync(result.path, finalPath);
+      result.path = finalPath;
+    } catch (error) {
+      this.logger.warn(`Could not rename ${result.path} to ${finalPath}`, error);
+    } finally {
+      this.outputNamer.release(finalPath);
+    }
+  }
+
+  /**
+   * Finish a provider result: post-process, snapshot, embed provenance, then
+   * report the final file's size, format and dimensions
+   * The style reference name defaults to the request's (replays pass the original)
+   */
+  private async completeResult(
+    request: ImageGenerationRequest,
+    result: ImageGenerationResult,
+    templateVersion?: string,
+    styleReferencePath: string | undefined = request.styleGridPath
+  ): Promise<void> {
+    await this.postProcess(request, result);
+    this.recordResult(request, result, templateVersion);
+    this.embedProvenance(request, result, templateVersion, styleReferencePath);
+    this.signManifest(request, result, templateVersion);
+    this.addFileStats(result);
+  }
+
+  /**
+   * Write the signed sidecar manifest for the final output file
+   */
+  private signManifest(request: ImageGenerationRequest, result: ImageGenerationResult, templateVersion?: string): void {
+    if (!result.success || !result.path || this.config?.signManifests === false) {
+      return;
+    }
+
+    const templateDir = request.template && this.config
+      ? path.join(this.config.repositoryPath, 'templates', request.template)
+      : undefined;
+
+    try {
+      result.manifestPath = this.signer.sign(result.path, {
+        kind: 'image',
+        provider: result.provider,
+        model: result.model ?? request.model,
+        seed: result.seed ?? request.seed,
+        resultId: result.id,
+        template: templateDir ? { name: request.template!, dir: templateDir, version: templateVersion } : undefined,
+        domainKnowledgePath: templateDir ? path.join(templateDir, 'domain-knowledge.txt') : undefined,
+        styleReferencePath: request.styleGridPath,
+        referenceImagePaths: request.mode === 'edit'
+          ? [request.sourceImagePath, request.maskPath].filter((p): p is string => p !== undefined)
+          : undefined
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to sign manifest for ${result.path}`, error);
+    }
+  }
+
+  /**
+   * Write the prompt, template, style reference, provider, model and seed into the output file
+   */
+  private embedProvenance(
+    request: ImageGenerationRequest,
+    result: ImageGenerationResult,
+    templateVersion?: string,
+    styleReferencePath?: string
+  ): void {
+    if (!result.success || !result.path || !result.provider || this.config?.embedProvenance === false) {
+      return;
+    }
+
+    try {
+      const embedded = embedProvenance(result.path, {
+        generator: 'create-image',
+        prompt: request.prompt,
+        userPrompt: request.userPrompt,
+        template: request.template,
+        templateVersion,
+        styleReference: styleReferencePath ? path.basename(styleReferencePath) : undefined,
+        provider: result.provider,
+        model: result.model ?? request.model,
+        seed: result.seed ?? request.seed,
+        createdAt: new Date().toISOString(),
+        resultId: result.id,
+        replayOf: result.replayOf
+      });
+      if (!embedded) {
+        this.logger.debug(`No provenance container for ${path.extname(result.path) || 'this format'}: ${result.path}`);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to embed provenance in ${result.path}`, error);
+    }
+  }
+
+  /**
+   * Snapshot a successful generation and attach its result id
+   */
+  private recordResult(request: ImageGenerationRequest, result: ImageGenerationResult, templateVersion?: string): void {
+    const record = this.resultStore?.save(request, result, templateVersion);
+    if (record) {
+      result.id = record.id;
+    }
+  }
+
+  /**
+   * Resolve edit paths against the working directory and default the output
+   * to {name}-edited{ext} next to the source (never overwriting an existing file)
+   */
+  private prepareEdit(request: ImageGenerationRequest): void {
+    if (!request.sourceImagePath) {
+      return;
+    }
+
+    request.sourceImagePath = path.resolve(this.context.cwd, request.sourceImagePath);
+    if (request.maskPath) {
+      request.maskPath = path.resolve(this.context.cwd, request.maskPath);
+    }
+
+    if (!request.outputPath) {
+      const extension = path.extname(request.sourceImagePath) || '.png';
+      const stem = path.join(
+        path.dirname(request.sourceImagePath),
+        `${path.basename(request.sourceImagePath, extension)}-edited`
+      );
+
+      request.outputPath = availablePath(stem, extension);
+    }
+
+    this.logger.info(`Editing: ${request.sourceImagePath}${request.maskPath ? ` (mask: ${request.maskPath})` : ''}`);
+  }
+
+  /**
+   * Generate `count` candidates for one prompt (consecutive seeds from request.seed or a random base)
+   * Candidates are saved as {name}-1, {name}-2, ... next to the output path, plus {name}-contact.png
+   */
+  private async generateVariants(
+    request: ImageGenerationRequest,
+    providerManager: ProviderManager,
+    config: GlobalConfig,
+    templateVersion?: string
+  ): Promise<ImageGenerationResult> {
+    const count = request.count!;
+    if (count > MAX_VARIANTS) {
+      return {
+        success: false,
+        error: `Too many variants requested: ${count} (maximum ${MAX_VARIANTS})`,
+        errorClass: 'invalid-request'
+      };
+    }
+
+    const outputPath = request.outputPath!;
+    const extension = path.extname(outputPath) || '.png';
+    const stem = path.join(path.dirname(outputPath), path.basename(outputPath, extension));
+    const baseSeed = request.seed ?? Math.floor(Math.random() * 2 ** 32);
+
+    this.logger.info(`Generating ${count} variants (base seed ${baseSeed})`);
+
+    // A few variants at a time; per-provider rate limits still apply
+    const variants: ImageGenerationResult[] = [];
+    let nextIndex = 0;
+    const worker = async () => {
+      while (nextIndex < count) {
+        const i = nextIndex++;
+        const variantRequest: ImageGenerationRequest = {
+          ...request,
+          count: undefined,
+          seed: (baseSeed + i) >>> 0,
+          outputPath: `${stem}-${i + 1}${extension}`
+        };
+        const variant = await this.generateOrRestore(variantRequest, providerManager, config);
+        await this.completeResult(variantRequest, variant, templateVersion);
+        this.events.emit('variant-complete', {
+          index: i + 1,
+          total: count,
+          success: variant.success,
+          path: variant.path,
+          seed: variant.seed,
+          error: variant.error
+        });
+        variants[i] = variant;
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(VARIANT_CONCURRENCY, count) }, worker));
+
+    const succeeded = variants.filter(v => v.success && v.path);
+    if (succeeded.length === 0) {
+      return {
+        success: false,
+        error: `All ${count} variants failed. First error: ${variants[0].error}`,
+        errorClass: variants[0].errorClass,
+        cancelled: variants.some(v => v.cancelled) || undefined,
+        timedOut: variants.some(v => v.timedOut) || undefined,
+        variants
+      };
+    }
+
+    const contactSheetPath = await this.buildContactSheet(variants, `${stem}-contact.png`);
+
+    return {
+      ...succeeded[0],
+      variants,
+      contactSheetPath
+    };
+  }
+
+  /**
+   * Composite successful variants into a labelled contact sheet (skipped without sharp)
+   */
+  private async buildContactSheet(variants: ImageGenerationResult[], sheetPath: string): Promise<string | undefined> {
+    const entries = variants
+      .map((variant, i) => ({ variant, index: i + 1 }))
+      .filter(entry => entry.variant.success && entry.variant.path);
+
+    const labels = entries.map(({ variant, index }) =>
+      variant.seed !== undefined ? `#${index}  seed ${variant.seed}  ${variant.provider}` : `#${index}  ${variant.provider}`
+    );
+
+    try {
+      const sheet = await compositeGrid(
+        entries.map(({ variant }) => fs.readFileSync(variant.path!)),
+        {
+          tileSize: CONTACT_SHEET_TILE_SIZE,
+          gap: CONTACT_SHEET_GAP,
+          columns: Math.ceil(Math.sqrt(entries.length)),
+          labels
+        }
+      );
+      fs.writeFileSync(sheetPath, sheet);
+      this.logger.info(`Contact sheet saved: ${sheetPath}`);
+      return sheetPath;
+    } catch (error) {
+      this.logger.warn(`Contact sheet skipped: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    }
+  }
 
-    // Add file stats if successful
+  /**
+   * Add file size to a successful result
+   */
+  private addFileStats(result: ImageGenerationResult): void {
     if (result.success && result.path && fs.existsSync(result.path)) {
       const stats = fs.statSync(result.path);
       result.size = stats.size;
       result.sizeKB = (stats.size / 1024).toFixed(1);
+
+      // Post-processed results already carry their format and dimensions
+      if (result.width === undefined) {
+        const data = fs.readFileSync(result.path);
+        const dimensions = imageDimensions(data);
+        const mimeType = sniffMimeType(data);
+        result.width = dimensions?.width;
+        result.height = dimensions?.height;
+        result.format = (Object.keys(FORMAT_MIME_TYPES) as ImageFormat[])
+          .find(format => FORMAT_MIME_TYPES[format] === mimeType);
+      }
     }
+  }
 
-    return result;
+  /**
+   * Run the request's post-processing pipeline on a successful result
+   * A failed step keeps the unprocessed image and reports postProcessError
+   */
+  private async postProcess(request: ImageGenerationRequest, result: ImageGenerationResult): Promise<void> {
+    if (!result.success || !result.path || !request.postProcess?.length) {
+      return;
+    }
+
+    try {
+      const output = await postProcessImage(result.path, request.postProcess);
+      result.path = output.path;
+      result.format = output.format;
+      result.mimeType = FORMAT_MIME_TYPES[output.format];
+      result.width = output.width;
+      result.height = output.height;
+      this.logger.info(`Post-processed: ${output.path} (${output.format}, ${output.width}x${output.height})`);
+    } catch (error) {
+      result.postProcessError = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Post-processing failed, keeping the unprocessed image: ${result.postProcessError}`);
+    }
+  }
+
+  /**
+   * Generate every row of a CSV / JSONL manifest with bounded concurrency
+   * Rows whose output already exists are skipped so interrupted runs can resume;
+   * the report is written to {manifest}.report.json unless reportPath is given
+   */
+  async generateBatch(manifestPath: string, options: BatchOptions = {}): Promise<BatchReport> {
+    await this.ensureInitialized();
+    const batchStartedAt = Date.now();
+
+    const resolvedManifest = path.resolve(this.context.cwd, manifestPath);
+    const manifestDir = path.dirname(resolvedManifest);
+    const manifestName = path.basename(resolvedManifest, path.extname(resolvedManifest));
+    const rows = loadBatchManifest(resolvedManifest);
+    const concurrency = Math.max(1, options.concurrency || DEFAULT_BATCH_CONCURRENCY);
+    const startedAt = new Date().toISOString();
+
+    this.logger.info(`Batch: ${rows.length} rows from ${resolvedManifest} (concurrency ${concurrency})`);
+
+    // Workers pull the next row until the manifest is exhausted
+    const results: BatchRowResult[] = [];
+    let nextIndex = 0;
+    let completed = 0;
+    const worker = async () => {
+      while (nextIndex < rows.length) {
+        const index = nextIndex++;
+        const outputPath = path.resolve(manifestDir, rows[index].outputPath || `${manifestName}-${index + 1}.png`);
+        results[index] = await this.generateBatchRow(rows[index], index + 1, outputPath, options);
+        this.events.emit('batch-progress', {
+          row: index + 1,
+          completed: ++completed,
+          total: rows.length,
+          status: results[index].status,
+          outputPath
+        });
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, rows.length) }, worker));
+
+    const count = (status: BatchRowResult['status']) => results.filter(r => r.status === status).length;
+    const reportPath = path.resolve(manifestDir, options.reportPath || `${manifestName}.report.json`);
+    const report: BatchReport = {
+      manifestPath: resolvedManifest,
+      reportPath,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      total: rows.length,
+      generated: count('generated'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+      cancelled: count('cancelled'),
+      rows: results
+    };
+
+    fs.writeFileSync(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+    this.logger.info(`Batch complete: ${report.generated} generated, ${report.skipped} skipped, ${report.failed} failed, ${report.cancelled} cancelled`);
+    this.logger.info(`Report: ${reportPath}`);
+
+    this.events.emit('finished', {
+      kind: 'batch',
+      success: report.failed === 0 && report.cancelled === 0,
+      path: reportPath,
+      cancelled: report.cancelled > 0 || undefined,
+      durationMs: Date.now() - batchStartedAt
+    });
+
+    return report;
+  }
+
+  /**
+   * Generate a single manifest row
+   */
+  private async generateBatchRow(
+    row: BatchRow,
+    rowNumber: number,
+    outputPath: string,
+    options: BatchOptions
+  ): Promise<BatchRowResult> {
+    const base = { row: rowNumber, prompt: row.prompt, outputPath };
+
+    if (options.signal?.aborted) {
+      return { ...base, status: 'cancelled', error: 'Batch cancelled' };
+    }
+
+    const existing = options.skipExisting !== false ? await this.existingBatchOutput(row, outputPath) : null;
+    if (existing) {
+      const size = fs.statSync(existing).size;
+      return { ...base, status: 'skipped', path: existing, size, sizeKB: (size / 1024).toFixed(1) };
+    }
+
+    const startedAt = Date.now();
+    const result = await this.generateImage({
+      prompt: row.prompt,
+      template: row.template,
+      type: row.type,
+      provider: row.provider,
+      model: row.model,
+      aspectRatio: row.aspectRatio,
+      resolution: row.resolution,
+      outputPath,
+      // Rows own their names: a regenerated row replaces its file
+      overwrite: true,
+      signal: options.signal
+    });
+
+    return {
+      ...base,
+      status: result.success ? 'generated' : result.cancelled ? 'cancelled' : 'failed',
+      path: result.path,
+      provider: result.provider,
+      resultId: result.id,
+      size: result.size,
+      sizeKB: result.sizeKB,
+      error: result.error,
+      durationMs: Date.now() - startedAt
+    };
+  }
+
+  /**
+   * A row's output from an earlier run: the literal path, or where the template's
+   * post-processing put it (a format step changes the extension)
+   */
+  private async existingBatchOutput(row: BatchRow, outputPath: string): Promise<string | null> {
+    const template = row.template && this.templateLoader ? await this.templateLoader.load(row.template) : null;
+    const candidates = [outputPath, processedPath(outputPath, template?.config.post_process)];
+    return candidates.find(candidate => fs.existsSync(candidate)) || null;
   }
 
   /**
@@ -166,14 +1093,63 @@ export class ImageOrchestrator {
     let output = `Provider Health Status:\n\n`;
 
     for (const health of healthStatuses) {
-      const status = health.healthy ? '✅' : '❌';
+      const status = health.healthy && health.circuit !== 'open' ? '✅' : '❌';
       output += `${status} ${health.provider}`;
 
+      if (health.latencyMs !== undefined) {
+        output += ` (${health.latencyMs}ms)`;
+      }
+
       if (!health.healthy && health.error) {
         output += ` - ${health.error}`;
       }
 
       output += '\n';
+
+      if (health.circuit && health.circuit !== 'closed') {
+        output += `   Circuit: ${health.circuit} after ${health.consecutiveFailures} consecutive failures\n`;
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Past generations matching the query, newest first
+   * (template, provider, kind, date range, prompt text, success or failure)
+   */
+  queryHistory(query: HistoryQuery = {}): HistoryEntry[] {
+    return this.history.query(query);
+  }
+
+  /**
+   * Get spend report broken down by provider and template
+   */
+  async getCostReport(options: { since?: Date; until?: Date } = {}): Promise<string> {
+    await this.ensureInitialized();
+
+    if (!this.costTracker) {
+      return 'Cost tracker not initialized';
+    }
+
+    const report = this.costTracker.getReport(options);
+    const formatCost = (cost: number) => `$${cost.toFixed(4)}`;
+
+    let output = 'Generation Costs';
+    if (report.since || report.until) {
+      output += ` (${report.since || 'start'} → ${report.until || 'now'})`;
+    }
+    output += `:\n\n`;
+    output += `Total: ${formatCost(report.totalCost)} across ${report.totalCount} images\n\n`;
+
+    output += 'By provider:\n';
+    for (const [provider, entry] of Object.entries(report.byProvider)) {
+      output += `  ${provider}: ${formatCost(entry.cost)} (${entry.count} images)\n`;
+    }
+
+    output += '\nBy template:\n';
+    for (const [template, entry] of Object.entries(report.byTemplate)) {
+      output += `  ${template}: ${formatCost(entry.cost)} (${entry.count} images)\n`;
     }
 
     return output;
@@ -254,9 +1230,11 @@ export class ImageOrchestrator {
     if (this.config) {
       this.templateLoader = new TemplateLoader(
         this.config.repositoryPath,
-        this.config.cacheTTL
+        this.config.cacheTTL,
+        this.rootLogger
       );
-      this.providerManager = new ProviderManager(this.config.repositoryPath);
+      this.providerManager = this.createProviderManager(this.config);
+      this.configureOutput(this.config);
       await this.templateLoader.loadRegistry();
     }
 
@@ -276,7 +1254,10 @@ export class ImageOrchestrator {
     output += `Default Provider: ${this.config.defaultProvider}\n`;
     output += `Auto Fallback: ${this.config.autoFallback ? 'enabled' : 'disabled'}\n`;
     output += `Cache Enabled: ${this.config.cacheEnabled ? 'yes' : 'no'}\n`;
-    output += `Cache TTL: ${this.config.cacheTTL}ms\n\n`;
+    output += `Cache TTL: ${this.config.cacheTTL}ms\n`;
+    output += `Result Cache: ${this.resultCache ? `enabled (${this.resultCache.stats().entries} entries)` : 'disabled'}\n`;
+    output += `Output: ${OutputNamer.resolveBaseDir(this.context.cwd, this.config.outputDir)}`
+      + ` (${this.config.outputPattern || DEFAULT_OUTPUT_PATTERN})\n\n`;
 
     output += `Providers (${this.config.providers.length}):\n`;
     for (const provider of this.config.providers) {
@@ -289,3 +1270,21 @@ export class ImageOrchestrator {
     return output;
   }
 }
+
+/**
+ * Files written next to a variant set's output path: {name}-1 ... {name}-n and {name}-contact
+ */
+function variantSuffixes(count: number): string[] {
+  if (!count) {
+    return [];
+  }
+  return [...Array.from({ length: count }, (_, i) => `-${i + 1}`), '-contact'];
+}
+
+/**
+ * A request or options object without its abort signal, for the history
+ */
+function withoutSignal<T extends { signal?: AbortSignal }>(request: T): Record<string, unknown> {
+  const { signal, ...rest } = request;
+  return rest;
+}
@@ -0,0 +1,216 @@
+/**
+ * Output Naming
+ *
+ * Names generated files when a request has no outputPath:
+ * - Output root from config `outputDir` (relative to the working directory,
+ *   ~ expanded), defaulting to the working directory itself
+ * - Naming pattern with placeholders: {template}, {topic}, {style}, {type},
+ *   {slug(prompt)} (or {slug}), {provider}, {model}, {seed}, {date}, {time},
+ *   {timestamp}, {n} and {ext}
+ * - Never overwrites: {n} counts up from 1 until the name is free; patterns
+ *   without {n} get a -2, -3, ... suffix on collision
+ * - Names handed out but not yet written are reserved, so concurrent
+ *   generations (variants, batches) never pick the same file
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export const DEFAULT_OUTPUT_PATTERN = '{slug(prompt)}.{ext}';
+
+const MAX_SLUG_LENGTH = 60;
+const MAX_COLLISIONS = 10000;
+
+export interface OutputNameVars {
+  prompt: string;
+  template?: string;
+  topic?: string;
+  style?: string;
+  type?: string;
+  provider?: string;
+  model?: string;
+  seed?: number;
+  ext: string;
+  date?: Date;
+}
+
+export class OutputNamer {
+  private baseDir: string;
+  private pattern: string;
+  private reserved = new Map<string, string[]>();
+
+  constructor(baseDir: string, pattern: string = DEFAULT_OUTPUT_PATTERN) {
+    this.baseDir = baseDir;
+    this.pattern = pattern;
+  }
+
+  /**
+   * Output root: `outputDir` resolved against the working directory (or the working directory)
+   */
+  static resolveBaseDir(cwd: string, outputDir?: string): string {
+    if (!outputDir) {
+      return cwd;
+    }
+    const expanded = outputDir === '~' || outputDir.startsWith('~/')
+      ? path.join(os.homedir(), outputDir.slice(1))
+      : outputDir;
+    return path.resolve(cwd, expanded);
+  }
+
+  /**
+   * Absolute path for the pattern, before collision handling
+   */
+  render(vars: OutputNameVars, pattern: string = this.pattern, n?: number): string {
+    return path.resolve(this.baseDir, renderPattern(pattern, vars, n));
+  }
+
+  /**
+   * First free path for the pattern, reserved until release()
+   * `siblings` are suffixes (e.g. -1, -2, -contact for variants) whose files must be free as well
+   */
+  reserve(vars: OutputNameVars, pattern: string = this.pattern, siblings: string[] = []): string {
+    const counted = /\{n\}/.test(pattern);
+
+    for (let n = 1; n <= MAX_COLLISIONS; n++) {
+      let candidate = this.render(vars, pattern, counted ? n : undefined);
+      if (!counted && n > 1) {
+        const extension = path.extname(candidate);
+        candidate = `${candidate.slice(0, candidate.length - extension.length)}-${n}${extension}`;
+      }
+
+      if (this.tryReserve(candidate, siblings)) {
+        return candidate;
+      }
+    }
+
+    throw new Error(`No free output name for pattern ${pattern} after ${MAX_COLLISIONS} attempts`);
+  }
+
+  /**
+   * First free path at or after an explicit one ({stem}-2{ext}, ...), reserved until release()
+   */
+  reservePath(filePath: string, siblings: string[] = []): string {
+    const extension = path.extname(filePath);
+    const stem = filePath.slice(0, filePath.length - extension.length);
+
+    for (let n = 1; n <= MAX_COLLISIONS; n++) {
+      const candidate = n === 1 ? filePath : `${stem}-${n}${extension}`;
+      if (this.tryReserve(candidate, siblings)) {
+        return candidate;
+      }
+    }
+
+    throw new Error(`No free output name for ${filePath} after ${MAX_COLLISIONS} attempts`);
+  }
+
+  /**
+   * Release a reserved path and its siblings (once written, the files themselves prevent reuse)
+   */
+  release(filePath: string): void {
+    this.reserved.delete(filePath);
+  }
+
+  /**
+   * Reserve a path when it and its siblings are neither on disk nor reserved
+   */
+  private tryReserve(candidate: string, siblings: string[]): boolean {
+    const extension = path.extname(candidate);
+    const stem = candidate.slice(0, candidate.length - extension.length);
+    const paths = [candidate, ...siblings.map(suffix => `${stem}${suffix}${extension}`)];
+    if (!paths.every(p => !fs.existsSync(p) && !this.isReserved(p))) {
+      return false;
+    }
+
+    this.reserved.set(candidate, paths);
+    return true;
+  }
+
+  private isReserved(filePath: string): boolean {
+    for (const paths of this.reserved.values()) {
+      if (paths.includes(filePath)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * First free {stem}{ext}, then {stem}-2{ext}, {stem}-3{ext}, ...
+ */
+export function availablePath(stem: string, extension: string): string {
+  let candidate = `${stem}${extension}`;
+  for (let i = 2; fs.existsSync(candidate); i++) {
+    candidate = `${stem}-${i}${extension}`;
+  }
+  return candidate;
+}
+
+/**
+ * Lower-case, ASCII, dash-separated words (at most 60 characters)
+ */
+export function slugify(text: string): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  if (slug.length <= MAX_SLUG_LENGTH) {
+    return slug || 'image';
+  }
+  const cut = slug.slice(0, MAX_SLUG_LENGTH);
+  return cut.slice(0, cut.lastIndexOf('-') > 0 ? cut.lastIndexOf('-') : MAX_SLUG_LENGTH);
+}
+
+/**
+ * Fill a pattern; empty values drop their path segment and the separators around them
+ */
+function renderPattern(pattern: string, vars: OutputNameVars, n?: number): string {
+  const date = vars.date || new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  const values: Record<string, string | undefined> = {
+    // Template names are topic/style, so they become nested directories
+    template: vars.template?.split('/').map(safeSegment).join('/'),
+    topic: vars.topic,
+    style: vars.style,
+    type: vars.type,
+    slug: slugify(vars.prompt),
+    'slug(prompt)': slugify(vars.prompt),
+    provider: vars.provider,
+    model: vars.model,
+    seed: vars.seed === undefined ? undefined : String(vars.seed),
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+    timestamp: String(date.getTime()),
+    n: n === undefined ? undefined : String(n),
+    ext: vars.ext.replace(/^\./, '')
+  };
+
+  const rendered = pattern.replace(/\{([a-z]+(?:\(prompt\))?)\}/g, (placeholder, key: string) => {
+    if (!(key in values)) {
+      return placeholder;
+    }
+    const value = values[key];
+    return value === undefined ? '' : key === 'template' ? value : safeSegment(value);
+  });
+
+  return rendered
+    .split('/')
+    .map(segment => segment
+      .replace(/([-_])[-_]+/g, '$1')
+      .replace(/^[-_]+|[-_]+$/g, '')
+      .replace(/[-_]+(?=\.[^.]*$)/, ''))
+    .filter(segment => segment !== '')
+    .join('/');
+}
+
+/**
+ * A value safe to use inside one path segment
+ */
+function safeSegment(value: string): string {
+  return value.replace(/[\\/:*?"<>|\x00-\x1f]+/g, '-').replace(/^\.+/, '');
+}
@@ -0,0 +1,194 @@
+/**
+ * Post Processor
+ *
+ * Declarative post-processing for generated images (requires sharp):
+ * - resize: width and/or height with a fit (inside, cover, contain, fill, outside)
+ * - format: png, jpeg, webp or avif with an optional quality
+ * - flatten: replace transparency with a background colour
+ * - trim: remove uniform borders
+ * - sharpen: optional sigma for a stronger sharpen
+ *
+ * Steps run in order. A format step changes the output extension, and the
+ * unprocessed file is removed once the converted one is written.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ImageFormat, PostProcessStep } from './types';
+import { loadSharp } from './image-processing';
+import { availablePath } from './output-naming';
+
+const FORMATS: ImageFormat[] = ['png', 'jpeg', 'webp', 'avif'];
+const FITS = ['inside', 'cover', 'contain', 'fill', 'outside'];
+
+export const FORMAT_EXTENSIONS: Record<ImageFormat, string> = {
+  png: '.png',
+  jpeg: '.jpg',
+  webp: '.webp',
+  avif: '.avif'
+};
+
+export const FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif'
+};
+
+export interface PostProcessOutput {
+  path: string;
+  format: ImageFormat;
+  width: number;
+  height: number;
+  size: number;
+}
+
+/**
+ * Check a pipeline before anything is generated (null when valid)
+ */
+export function validatePostProcess(steps: unknown): string | null {
+  if (!Array.isArray(steps)) {
+    return 'Post-processing must be a list of steps';
+  }
+
+  for (const [index, step] of steps.entries()) {
+    const label = `Post-processing step ${index + 1}`;
+    if (!step || typeof step !== 'object') {
+      return `${label} is not an object`;
+    }
+
+    switch (step.op) {
+      case 'resize':
+        if (!isPositive(step.width) && !isPositive(step.height)) {
+          return `${label} (resize) needs a positive width or height`;
+        }
+        if (step.fit !== undefined && !FITS.includes(step.fit)) {
+          return `${label} (resize) has an invalid fit: ${step.fit} (expected ${FITS.join(', ')})`;
+        }
+        break;
+      case 'format':
+        if (!FORMATS.includes(step.format)) {
+          return `${label} (format) has an invalid format: ${step.format} (expected ${FORMATS.join(', ')})`;
+        }
+        if (step.quality !== undefined && !(Number.isInteger(step.quality) && step.quality >= 1 && step.quality <= 100)) {
+          return `${label} (format) has an invalid quality: ${step.quality} (expected 1-100)`;
+        }
+        break;
+      case 'sharpen':
+        if (step.sigma !== undefined && !isPositive(step.sigma)) {
+          return `${label} (sharpen) has an invalid sigma: ${step.sigma}`;
+        }
+        break;
+      case 'trim':
+        if (step.threshold !== undefined && !(typeof step.threshold === 'number' && step.threshold >= 0)) {
+          return `${label} (trim) has an invalid threshold: ${step.threshold}`;
+        }
+        break;
+      case 'flatten':
+        break;
+      default:
+        return `${label} has an unknown op: ${step.op} (expected resize, format, flatten, trim or sharpen)`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Run a pipeline on an image file and write the result
+ * Throws when sharp is not installed or a step fails (the original file is left in place)
+ */
+export async function postProcessImage(filePath: string, steps: PostProcessStep[]): Promise<PostProcessOutput> {
+  const sharp = await loadSharp();
+  if (!sharp) {
+    throw new Error('sharp is not installed');
+  }
+
+  let buffer: Buffer = fs.readFileSync(filePath);
+  let output: { format: ImageFormat; quality?: number } | undefined;
+
+  // Each step is materialised so steps compose in the order given
+  // (sharp applies the operations of a single pipeline in a fixed order)
+  for (const step of steps) {
+    const image = sharp(buffer);
+    switch (step.op) {
+      case 'resize':
+        buffer = await image.resize({
+          width: step.width,
+          height: step.height,
+          fit: step.fit || 'inside',
+          background: step.background || { r: 0, g: 0, b: 0, alpha: 0 }
+        }).toBuffer();
+        break;
+      case 'flatten':
+        buffer = await image.flatten({ background: step.background || '#ffffff' }).toBuffer();
+        break;
+      case 'trim':
+        buffer = await image.trim({ threshold: step.threshold }).toBuffer();
+        break;
+      case 'sharpen':
+        buffer = await (step.sigma ? image.sharpen({ sigma: step.sigma }) : image.sharpen()).toBuffer();
+        break;
+      case 'format':
+        output = { format: step.format, quality: step.quality };
+        break;
+    }
+  }
+
+  let format = output?.format || toImageFormat((await sharp(buffer).metadata()).format);
+  if (output) {
+    buffer = await sharp(buffer).toFormat(output.format, { quality: output.quality }).toBuffer();
+  } else if (!format) {
+    buffer = await sharp(buffer).png().toBuffer();
+    format = 'png';
+  }
+
+  let finalPath = processedPath(filePath, steps);
+  if (finalPath !== filePath && fs.existsSync(finalPath)) {
+    // The renamed sibling belongs to another image: take the next free name instead
+    const extension = path.extname(finalPath);
+    finalPath = availablePath(finalPath.slice(0, -extension.length), extension);
+  }
+  fs.writeFileSync(finalPath, buffer);
+  if (finalPath !== filePath) {
+    fs.rmSync(filePath, { force: true });
+  }
+
+  const metadata = await sharp(buffer).metadata();
+  return {
+    path: finalPath,
+    format: format!,
+    width: metadata.width || 0,
+    height: metadata.height || 0,
+    size: buffer.length
+  };
+}
+
+/**
+ * Path a pipeline writes its result to (the last format step sets the extension)
+ */
+export function processedPath(filePath: string, steps: PostProcessStep[] = []): string {
+  const format = [...steps].reverse().find(step => step.op === 'format');
+  return format?.op === 'format' ? withExtension(filePath, FORMAT_EXTENSIONS[format.format]) : filePath;
+}
+
+/**
+ * Replace the extension unless it already names the format (.jpg and .jpeg are both kept)
+ */
+function withExtension(filePath: string, extension: string): string {
+  const current = path.extname(filePath).toLowerCase();
+  if (current === extension || (extension === '.jpg' && current === '.jpeg')) {
+    return filePath;
+  }
+  return path.join(path.dirname(filePath), `${path.basename(filePath, path.extname(filePath))}${extension}`);
+}
+
+function toImageFormat(format: string | undefined): ImageFormat | undefined {
+  if (format === 'jpg') return 'jpeg';
+  if (format === 'heif') return 'avif';
+  return FORMATS.includes(format as ImageFormat) ? format as ImageFormat : undefined;
+}
+
+function isPositive(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
@@ -0,0 +1,130 @@
+/**
+ * Progress Events
+ *
+ * Typed progress events for UIs and scripts, emitted by the orchestrator,
+ * the provider manager and the style reference grid generator:
+ * - template-loaded, provider-attempt, fallback, provider-output
+ * - variant-complete, batch-progress
+ * - tile-complete, composite-done (style reference grids)
+ * - finished (once per image, variant set, batch or grid)
+ *
+ * A listener that throws is logged and does not affect generation.
+ */
+
+import { EventEmitter } from 'events';
+import { BatchRowStatus, ProviderErrorClass, PromptSection } from './types';
+import { Logger, defaultLogger } from './logger';
+
+export interface ProgressEventMap {
+  'template-loaded': {
+    template: string;
+    version: string;
+    sections: PromptSection[];
+    styleGridPath?: string;
+  };
+  'provider-attempt': {
+    provider: string;
+    model?: string;
+    role: 'primary' | 'fallback';
+    attempt: number;
+  };
+  'fallback': {
+    from: string;
+    to: string;
+    errorClass?: ProviderErrorClass;
+    error?: string;
+  };
+  'provider-output': {
+    provider: string;
+    stream: 'stdout' | 'stderr';
+    text: string;
+  };
+  'variant-complete': {
+    index: number;
+    total: number;
+    success: boolean;
+    path?: string;
+    seed?: number;
+    error?: string;
+  };
+  'batch-progress': {
+    row: number;
+    completed: number;
+    total: number;
+    status: BatchRowStatus;
+    outputPath: string;
+  };
+  'tile-complete': {
+    index: number;
+    total: number;
+    success: boolean;
+    path?: string;
+    error?: string;
+  };
+  'composite-done': {
+    path: string;
+    tiles: number;
+    sizeKB: number;
+  };
+  'finished': {
+    kind: 'image' | 'variants' | 'batch' | 'grid';
+    success: boolean;
+    path?: string;
+    provider?: string;
+    error?: string;
+    cancelled?: boolean;
+    timedOut?: boolean;
+    durationMs: number;
+  };
+}
+
+export type ProgressEventName = keyof ProgressEventMap;
+
+export type ProgressListener<K extends ProgressEventName> = (event: ProgressEventMap[K]) => void;
+
+export class ProgressEmitter {
+  private emitter = new EventEmitter();
+  private logger: Logger;
+
+  constructor(logger: Logger = defaultLogger()) {
+    this.logger = logger.child('ProgressEmitter');
+  }
+
+  /**
+   * Subscribe to an event
+   */
+  on<K extends ProgressEventName>(event: K, listener: ProgressListener<K>): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event
+   */
+  once<K extends ProgressEventName>(event: K, listener: ProgressListener<K>): this {
+    this.emitter.once(event, listener);
+    return this;
+  }
+
+  /**
+   * Unsubscribe a listener
+   */
+  off<K extends ProgressEventName>(event: K, listener: ProgressListener<K>): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Call each listener in turn; one that throws is logged and the rest still run
+   */
+  emit<K extends ProgressEventName>(event: K, payload: ProgressEventMap[K]): void {
+    // rawListeners keeps the once() wrappers, so calling them also unsubscribes
+    for (const listener of this.emitter.rawListeners(event)) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.logger.error(`Listener for ${event} failed`, error);
+      }
+    }
+  }
+}
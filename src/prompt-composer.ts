@@ -0,0 +1,157 @@
+/**
+ * Prompt Composer
+ *
+ * Builds the final prompt for a template, the same for every provider:
+ * - Sections: type prompt (prompts/{type}.txt), user prompt, style guide rules
+ * - Section order and separator from config.json `composition`
+ * - {{placeholder}} interpolation: {{prompt}}, {{type}}, {{topic}}, {{style}},
+ *   {{template}}, {{description}}, {{style_guide}} and style guide values by
+ *   dotted path (e.g. {{colors.primary}})
+ * - Domain knowledge attached as the system instruction
+ *
+ * A type prompt that contains {{prompt}} embeds the user prompt itself, so
+ * the separate prompt section is dropped.
+ */
+
+import { ComposedPrompt, ImageGenerationRequest, PromptSection, Template } from './types';
+import { Logger, defaultLogger } from './logger';
+
+const DEFAULT_ORDER: PromptSection[] = ['type_prompt', 'prompt', 'style_guide'];
+const DEFAULT_SEPARATOR = '\n\n';
+const DEFAULT_STYLE_GUIDE_HEADING = 'Style guide:';
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Compose the prompt and system instruction for a request using a template
+ */
+export function composePrompt(
+  template: Template,
+  request: ImageGenerationRequest,
+  logger: Logger = defaultLogger()
+): ComposedPrompt {
+  const log = logger.child('PromptComposer');
+  const composition = template.config.composition || {};
+  const order: PromptSection[] = Array.isArray(composition.order) ? composition.order : DEFAULT_ORDER;
+  const separator: string = composition.separator ?? DEFAULT_SEPARATOR;
+  const heading: string = composition.style_guide_heading ?? DEFAULT_STYLE_GUIDE_HEADING;
+
+  const styleGuide = serializeStyleGuide(template.styleGuide);
+  const values: Record<string, string> = {
+    ...flatten(template.styleGuide),
+    prompt: request.prompt,
+    type: request.type || '',
+    topic: request.topic || template.topic,
+    style: request.style || template.style,
+    template: request.template || template.name,
+    description: template.description,
+    style_guide: styleGuide
+  };
+
+  const unresolved = new Set<string>();
+  const interpolate = (text: string) =>
+    text.replace(PLACEHOLDER, (_, key: string) => {
+      if (key in values) {
+        return values[key];
+      }
+      unresolved.add(key);
+      return '';
+    });
+
+  const typePrompt = request.type ? template.config.prompts?.[request.type] : undefined;
+  if (request.type && typePrompt === undefined) {
+    log.warn(`No prompt for type "${request.type}" in ${values.template}`);
+  }
+
+  const embedsPrompt = typeof typePrompt === 'string' && /\{\{\s*prompt\s*\}\}/.test(typePrompt);
+
+  const sections: PromptSection[] = [];
+  const parts: string[] = [];
+  for (const section of order) {
+    let text = '';
+    if (section === 'type_prompt' && typePrompt) {
+      text = interpolate(typePrompt);
+    } else if (section === 'prompt' && !embedsPrompt) {
+      text = request.prompt;
+    } else if (section === 'style_guide' && styleGuide) {
+      text = heading ? `${heading}\n${styleGuide}` : styleGuide;
+    } else if (!DEFAULT_ORDER.includes(section)) {
+      log.warn(`Unknown prompt section "${section}" in ${values.template}`);
+    }
+
+    if (text.trim()) {
+      sections.push(section);
+      parts.push(text.trim());
+    }
+  }
+
+  const domainKnowledge = typeof template.config.domainKnowledge === 'string'
+    ? interpolate(template.config.domainKnowledge).trim()
+    : '';
+
+  if (unresolved.size > 0) {
+    log.warn(`Unresolved placeholders: ${[...unresolved].join(', ')}`);
+  }
+
+  return {
+    prompt: parts.join(separator),
+    systemInstruction: domainKnowledge || undefined,
+    sections,
+    unresolved: [...unresolved]
+  };
+}
+
+/**
+ * Style guide rules as an indented bullet list (keys in file order)
+ */
+export function serializeStyleGuide(styleGuide: unknown, indent: string = ''): string {
+  if (!styleGuide || typeof styleGuide !== 'object' || Array.isArray(styleGuide)) {
+    return '';
+  }
+
+  const lines: string[] = [];
+  for (const [key, value] of Object.entries(styleGuide as Record<string, unknown>)) {
+    const label = key.replace(/[_-]+/g, ' ');
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const nested = serializeStyleGuide(value, `${indent}  `);
+      if (nested) {
+        lines.push(`${indent}- ${label}:`, nested);
+      }
+    } else if (formatValue(value)) {
+      lines.push(`${indent}- ${label}: ${formatValue(value)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(formatValue).filter(Boolean).join(', ');
+  }
+  if (value && typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * Style guide values keyed by dotted path (objects are also available whole)
+ */
+function flatten(value: unknown, prefix: string = '', out: Record<string, string> = {}): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return out;
+  }
+
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (child && typeof child === 'object' && !Array.isArray(child)) {
+      out[name] = serializeStyleGuide(child);
+      flatten(child, name, out);
+    } else {
+      out[name] = formatValue(child);
+    }
+  }
+
+  return out;
+}
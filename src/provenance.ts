@@ -0,0 +1,342 @@
+/**
+ * Provenance
+ *
+ * Embeds how an image was made into the file itself, so it survives being
+ * copied out of the output folder:
+ * - PNG: an iTXt chunk (keyword "create-image", UTF-8 JSON) plus a tEXt
+ *   Software chunk
+ * - JPEG: an XMP packet in an APP1 segment
+ * - WebP: an XMP chunk (simple VP8 / VP8L files are converted to VP8X)
+ *
+ * AVIF and other formats are left untouched. Embedding again replaces the
+ * previous record rather than adding a second one.
+ */
+
+import * as fs from 'fs';
+import { pngChunk } from './png-utils';
+import { ImageProvenance } from './types';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PNG_KEYWORD = 'create-image';
+const GENERATOR = 'create-image';
+
+const XMP_HEADER = Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'latin1');
+const XMP_NAMESPACE = 'https://github.com/imehr/create-image-plugin/ns/provenance/1.0/';
+const MAX_JPEG_SEGMENT = 0xffff - 2;
+
+const WEBP_XMP_FLAG = 0x04;
+const WEBP_ALPHA_FLAG = 0x10;
+
+/**
+ * Write provenance into an image file
+ * Returns false when the format has no supported metadata container
+ */
+export function embedProvenance(filePath: string, provenance: ImageProvenance): boolean {
+  const data = fs.readFileSync(filePath);
+  const json = JSON.stringify(provenance);
+
+  let updated: Buffer | null;
+  if (isPng(data)) {
+    updated = embedPng(data, json);
+  } else if (isJpeg(data)) {
+    updated = embedJpeg(data, xmpPacket(provenance, json));
+  } else if (isWebp(data)) {
+    updated = embedWebp(data, xmpPacket(provenance, json));
+  } else {
+    updated = null;
+  }
+
+  if (!updated) {
+    return false;
+  }
+
+  fs.writeFileSync(filePath, updated);
+  return true;
+}
+
+/**
+ * Read the provenance embedded by create-image (null when there is none)
+ */
+export function readProvenance(filePath: string): ImageProvenance | null {
+  const data = fs.readFileSync(filePath);
+
+  let json: string | null = null;
+  if (isPng(data)) {
+    json = readPngText(data);
+  } else {
+    const xmp = isJpeg(data) ? readJpegXmp(data) : isWebp(data) ? readWebpXmp(data) : null;
+    const match = xmp?.match(/<ci:Provenance>([\s\S]*?)<\/ci:Provenance>/);
+    json = match ? unescapeXml(match[1]) : null;
+  }
+
+  if (!json) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Provenance as readable lines (for the create-image-info command)
+ */
+export function formatProvenance(provenance: ImageProvenance): string {
+  const lines = [
+    `Prompt: ${provenance.userPrompt ?? provenance.prompt}`,
+    provenance.template
+      ? `Template: ${provenance.template}${provenance.templateVersion ? ` v${provenance.templateVersion}` : ''}`
+      : undefined,
+    provenance.styleReference ? `Style reference: ${provenance.styleReference}` : undefined,
+    `Provider: ${provenance.provider}${provenance.model ? ` (${provenance.model})` : ''}`,
+    provenance.seed !== undefined ? `Seed: ${provenance.seed}` : undefined,
+    `Created: ${provenance.createdAt}`,
+    provenance.resultId ? `Result id: ${provenance.resultId}` : undefined,
+    provenance.replayOf ? `Replay of: ${provenance.replayOf}` : undefined,
+    provenance.userPrompt !== undefined && provenance.userPrompt !== provenance.prompt
+      ? `Composed prompt:\n${provenance.prompt}`
+      : undefined
+  ];
+
+  return lines.filter(line => line !== undefined).join('\n');
+}
+
+// PNG
+
+function isPng(data: Buffer): boolean {
+  return data.length > 8 && data.subarray(0, 8).equals(PNG_SIGNATURE);
+}
+
+function embedPng(data: Buffer, json: string): Buffer | null {
+  const chunks: Buffer[] = [PNG_SIGNATURE];
+  let inserted = false;
+
+  for (const chunk of pngChunks(data)) {
+    // Drop an earlier record so re-embedding replaces it
+    if ((chunk.type === 'iTXt' || chunk.type === 'tEXt') && isOwnPngText(chunk.body)) {
+      continue;
+    }
+    if (chunk.type === 'IEND' && !inserted) {
+      chunks.push(
+        pngChunk('tEXt', Buffer.from(`Software\0${GENERATOR}`, 'latin1')),
+        // keyword, null, compression flag 0, method 0, empty language tag, empty translated keyword
+        pngChunk('iTXt', Buffer.concat([Buffer.from(`${PNG_KEYWORD}\0\0\0\0\0`, 'latin1'), Buffer.from(json, 'utf-8')]))
+      );
+      inserted = true;
+    }
+    chunks.push(data.subarray(chunk.start, chunk.end));
+  }
+
+  return inserted ? Buffer.concat(chunks) : null;
+}
+
+function readPngText(data: Buffer): string | null {
+  for (const chunk of pngChunks(data)) {
+    if (chunk.type === 'iTXt' && chunk.body.toString('latin1', 0, PNG_KEYWORD.length + 1) === `${PNG_KEYWORD}\0`) {
+      const compressed = chunk.body[PNG_KEYWORD.length + 1] === 1;
+      if (compressed) {
+        return null;
+      }
+      // Skip the language tag and translated keyword (both null-terminated)
+      let offset = PNG_KEYWORD.length + 3;
+      offset = chunk.body.indexOf(0, offset) + 1;
+      offset = chunk.body.indexOf(0, offset) + 1;
+      return chunk.body.toString('utf-8', offset);
+    }
+  }
+  return null;
+}
+
+function isOwnPngText(body: Buffer): boolean {
+  const keyword = body.toString('latin1', 0, Math.max(0, body.indexOf(0)));
+  return keyword === PNG_KEYWORD || (keyword === 'Software' && body.toString('latin1', keyword.length + 1) === GENERATOR);
+}
+
+function* pngChunks(data: Buffer): Generator<{ type: string; body: Buffer; start: number; end: number }> {
+  let offset = 8;
+  while (offset + 12 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const end = offset + 12 + length;
+    if (end > data.length) {
+      return;
+    }
+    yield {
+      type: data.toString('latin1', offset + 4, offset + 8),
+      body: data.subarray(offset + 8, offset + 8 + length),
+      start: offset,
+      end
+    };
+    offset = end;
+  }
+}
+
+// JPEG
+
+function isJpeg(data: Buffer): boolean {
+  return data.length > 4 && data[0] === 0xff && data[1] === 0xd8;
+}
+
+function embedJpeg(data: Buffer, xmp: string): Buffer {
+  const payload = Buffer.concat([XMP_HEADER, Buffer.from(xmp, 'utf-8')]);
+  if (payload.length > MAX_JPEG_SEGMENT) {
+    throw new Error(`Provenance too large for a JPEG XMP segment (${payload.length} bytes)`);
+  }
+
+  const segment = Buffer.alloc(4);
+  segment.writeUInt16BE(0xffe1, 0);
+  segment.writeUInt16BE(payload.length + 2, 2);
+
+  // Keep the JFIF / EXIF headers first and drop any earlier XMP segment
+  const parts: Buffer[] = [data.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    if (marker < 0xe0 || marker > 0xef) {
+      break;
+    }
+    const end = offset + 2 + data.readUInt16BE(offset + 2);
+    if (!isXmpSegment(data, offset)) {
+      parts.push(data.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  parts.push(segment, payload, data.subarray(offset));
+  return Buffer.concat(parts);
+}
+
+function readJpegXmp(data: Buffer): string | null {
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    if (marker === 0xda) {
+      break;
+    }
+    const length = data.readUInt16BE(offset + 2);
+    if (isXmpSegment(data, offset)) {
+      return data.toString('utf-8', offset + 4 + XMP_HEADER.length, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function isXmpSegment(data: Buffer, offset: number): boolean {
+  return data[offset + 1] === 0xe1 &&
+    data.subarray(offset + 4, offset + 4 + XMP_HEADER.length).equals(XMP_HEADER);
+}
+
+// WebP
+
+function isWebp(data: Buffer): boolean {
+  return data.length > 20 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP';
+}
+
+function embedWebp(data: Buffer, xmp: string): Buffer | null {
+  const chunks = webpChunks(data).filter(chunk => chunk.type !== 'XMP ');
+  const first = chunks[0];
+  if (!first) {
+    return null;
+  }
+
+  let header: Buffer;
+  let rest = chunks;
+  if (first.type === 'VP8X') {
+    header = Buffer.from(data.subarray(first.start, first.end));
+    header[8] |= WEBP_XMP_FLAG;
+    rest = chunks.slice(1);
+  } else {
+    // Simple files need an extended header before they can carry metadata
+    const size = webpSize(data, first);
+    if (!size) {
+      return null;
+    }
+    header = Buffer.alloc(18);
+    header.write('VP8X', 0, 'ascii');
+    header.writeUInt32LE(10, 4);
+    header[8] = WEBP_XMP_FLAG | (first.type === 'VP8L' && (data[first.start + 12] & 0x10) ? WEBP_ALPHA_FLAG : 0);
+    header.writeUIntLE(size.width - 1, 12, 3);
+    header.writeUIntLE(size.height - 1, 15, 3);
+  }
+
+  const body = Buffer.from(xmp, 'utf-8');
+  const xmpChunk = Buffer.alloc(8 + body.length + (body.length % 2));
+  xmpChunk.write('XMP ', 0, 'ascii');
+  xmpChunk.writeUInt32LE(body.length, 4);
+  body.copy(xmpChunk, 8);
+
+  const payload = Buffer.concat([
+    Buffer.from('WEBP', 'ascii'),
+    header,
+    ...rest.map(chunk => data.subarray(chunk.start, chunk.end)),
+    xmpChunk
+  ]);
+  const riff = Buffer.alloc(8);
+  riff.write('RIFF', 0, 'ascii');
+  riff.writeUInt32LE(payload.length, 4);
+  return Buffer.concat([riff, payload]);
+}
+
+function readWebpXmp(data: Buffer): string | null {
+  const chunk = webpChunks(data).find(c => c.type === 'XMP ');
+  return chunk ? data.toString('utf-8', chunk.start + 8, chunk.start + 8 + chunk.size) : null;
+}
+
+function webpChunks(data: Buffer): Array<{ type: string; size: number; start: number; end: number }> {
+  const chunks: Array<{ type: string; size: number; start: number; end: number }> = [];
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const size = data.readUInt32LE(offset + 4);
+    const end = offset + 8 + size + (size % 2);
+    chunks.push({ type: data.toString('ascii', offset, offset + 4), size, start: offset, end: Math.min(end, data.length) });
+    offset = end;
+  }
+  return chunks;
+}
+
+function webpSize(data: Buffer, chunk: { type: string; start: number }): { width: number; height: number } | null {
+  const offset = chunk.start + 8;
+  if (chunk.type === 'VP8 ' && offset + 10 <= data.length) {
+    return { width: data.readUInt16LE(offset + 6) & 0x3fff, height: data.readUInt16LE(offset + 8) & 0x3fff };
+  }
+  if (chunk.type === 'VP8L' && offset + 5 <= data.length) {
+    const bits = data.readUInt32LE(offset + 1);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  return null;
+}
+
+// XMP
+
+function xmpPacket(provenance: ImageProvenance, json: string): string {
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `  <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:ci="${XMP_NAMESPACE}"` +
+      ` xmp:CreatorTool="${GENERATOR}" xmp:CreateDate="${escapeXml(provenance.createdAt)}">`,
+    `   <ci:Provenance>${escapeXml(json)}</ci:Provenance>`,
+    '  </rdf:Description>',
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>'
+  ].join('\n');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&gt;/g, '>')
+    .replace(/&lt;/g, '<')
+    .replace(/&amp;/g, '&');
+}
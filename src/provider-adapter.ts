@@ -0,0 +1,220 @@
+/**
+ * Provider Adapter Helpers
+ *
+ * Shared plumbing for the in-process provider adapters:
+ * - JSON requests with classified HTTP errors (generation and health probes)
+ * - Base URL overrides (local stand-ins for testing)
+ * - Image encoding helpers (base64, data URLs, MIME types)
+ * - Abortable requests and sleeps (request.signal)
+ * - Instructions for edit requests sent to chat-style models
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProviderConfig } from './types';
+import { httpError } from './provider-errors';
+import { abortReason } from './cancellation';
+
+export const EDIT_SOURCE_INSTRUCTION =
+  'Edit this image. Keep its composition, style and everything the instruction does not mention unchanged.';
+export const EDIT_MASK_INSTRUCTION =
+  'This mask marks the area to change: only edit the white region and leave the black region untouched.';
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif'
+};
+
+/**
+ * Resolve the API base URL, honouring a per-provider override
+ */
+export function resolveBaseUrl(provider: ProviderConfig, defaultBaseUrl: string): string {
+  return (provider.baseUrl || defaultBaseUrl).replace(/\/+$/, '');
+}
+
+/**
+ * POST a JSON body and parse the JSON response
+ */
+export async function postJson<T>(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    throw await httpError(response);
+  }
+
+  return await response.json() as T;
+}
+
+/**
+ * POST multipart form data and parse the JSON response
+ */
+export async function postForm<T>(
+  url: string,
+  form: FormData,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await fetch(url, { method: 'POST', headers, body: form, signal });
+
+  if (!response.ok) {
+    throw await httpError(response);
+  }
+
+  return await response.json() as T;
+}
+
+/**
+ * GET a URL and parse the JSON response
+ */
+export async function getJson<T>(
+  url: string,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await fetch(url, { headers, signal });
+
+  if (!response.ok) {
+    throw await httpError(response);
+  }
+
+  return await response.json() as T;
+}
+
+/**
+ * Guess an image MIME type from a file extension
+ */
+export function mimeTypeFromPath(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] || 'image/png';
+}
+
+/**
+ * Detect an image MIME type from its magic bytes
+ */
+export function sniffMimeType(data: Buffer): string {
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg';
+  if (data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+  if (data.toString('ascii', 0, 3) === 'GIF') return 'image/gif';
+  return 'image/png';
+}
+
+/**
+ * Read pixel dimensions from PNG, JPEG or WebP data
+ */
+export function imageDimensions(data: Buffer): { width: number; height: number } | null {
+  const mimeType = sniffMimeType(data);
+
+  if (mimeType === 'image/png' && data.length >= 24) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  if (mimeType === 'image/jpeg') {
+    // Walk segments until a start-of-frame marker (SOF0-SOF15 except DHT/JPG/DAC)
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+    return null;
+  }
+
+  if (mimeType === 'image/webp' && data.length >= 30) {
+    const chunk = data.toString('ascii', 12, 16);
+    if (chunk === 'VP8X') {
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    }
+    if (chunk === 'VP8 ') {
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Download an image URL
+ */
+export async function fetchImage(url: string, signal?: AbortSignal): Promise<{ mimeType: string; data: Buffer }> {
+  const response = await fetch(url, { signal });
+
+  if (!response.ok) {
+    throw await httpError(response);
+  }
+
+  const data = Buffer.from(await response.arrayBuffer());
+  const contentType = response.headers.get('content-type')?.split(';')[0];
+  return {
+    mimeType: contentType?.startsWith('image/') ? contentType : sniffMimeType(data),
+    data
+  };
+}
+
+/**
+ * File extension (without dot) for an image MIME type
+ */
+export function extensionForMimeType(mimeType: string): string {
+  const entry = Object.entries(MIME_TYPES).find(([, type]) => type === mimeType);
+  return entry ? entry[0].slice(1) : 'png';
+}
+
+/**
+ * Read an image file as base64 with its MIME type
+ */
+export function readImageBase64(filePath: string): { mimeType: string; data: string } {
+  return {
+    mimeType: mimeTypeFromPath(filePath),
+    data: fs.readFileSync(filePath).toString('base64')
+  };
+}
+
+/**
+ * Decode a `data:<mime>;base64,<data>` URL
+ */
+export function decodeDataUrl(url: string): { mimeType: string; data: Buffer } | null {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (!match) {
+    return null;
+  }
+  return { mimeType: match[1], data: Buffer.from(match[2], 'base64') };
+}
+
+/**
+ * Wait for a delay (rejects early if the signal aborts)
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(abortReason(signal));
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,117 @@
+/**
+ * Provider Errors
+ *
+ * Error taxonomy for provider failures. The class decides whether the
+ * fallback chain moves on (e.g. quota, transient) or stops (e.g. a safety
+ * block or invalid prompt would fail the same way on every provider).
+ */
+
+import { FallbackPolicy, ProviderErrorClass } from './types';
+import { redactSecrets } from './logger';
+
+export const DEFAULT_FALLBACK_POLICY: Record<ProviderErrorClass, boolean> = {
+  'auth': true,
+  'quota': true,
+  'safety': false,
+  'invalid-request': false,
+  'timeout': true,
+  'transient': true,
+  'unknown': true
+};
+
+const SAFETY_PATTERN = /\b(safety|blocked|prohibited[_ ]content|content[_ ]policy|moderation)\b/i;
+
+export class ProviderError extends Error {
+  readonly errorClass: ProviderErrorClass;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    errorClass: ProviderErrorClass,
+    options: { status?: number; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+    this.errorClass = errorClass;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Build a classified error from a failed HTTP response
+ */
+export async function httpError(response: Response): Promise<ProviderError> {
+  // Error bodies sometimes echo the request (including credentials)
+  const body = redactSecrets(await response.text());
+  return new ProviderError(`HTTP ${response.status}: ${body}`, classifyStatus(response.status, body), {
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+  });
+}
+
+/**
+ * Map an HTTP status (and body) to an error class
+ */
+export function classifyStatus(status: number, body: string = ''): ProviderErrorClass {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429 || status === 402) return 'quota';
+  // Content refusals come back as bad requests; an auth or quota body mentioning "blocked" is not one
+  if ((status === 400 || status === 422) && SAFETY_PATTERN.test(body)) return 'safety';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'transient';
+  if (status >= 400) return 'invalid-request';
+  return 'unknown';
+}
+
+/**
+ * Classify any thrown value (adapters may throw plain errors)
+ */
+export function classifyError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+
+  const message = redactSecrets(error instanceof Error ? error.message : String(error));
+  const name = error instanceof Error ? error.name : '';
+
+  if (name === 'TimeoutError' || /timed? ?out/i.test(message)) {
+    return new ProviderError(message, 'timeout');
+  }
+  if (/ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|fetch failed|socket hang up/i.test(message)) {
+    return new ProviderError(message, 'transient');
+  }
+  if (/api key|access token|not configured|unauthori[sz]ed/i.test(message)) {
+    return new ProviderError(message, 'auth');
+  }
+  if (SAFETY_PATTERN.test(message)) {
+    return new ProviderError(message, 'safety');
+  }
+
+  return new ProviderError(message, 'unknown');
+}
+
+/**
+ * Whether an error class should move on to the next provider
+ */
+export function shouldFallback(errorClass: ProviderErrorClass, policy?: FallbackPolicy): boolean {
+  return policy?.[errorClass] ?? DEFAULT_FALLBACK_POLICY[errorClass];
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -3,185 +3,623 @@
  *
  * Manages provider selection and automatic fallback:
  * - Automatic fallback chain (Gemini → OpenRouter → VertexAI)
- * - Provider health checking
+ * - In-process provider adapters (legacy generate.js via `adapter: legacy-cli`)
+ * - Provider health checking (credential validation + active probes)
+ * - Circuit breaker per provider (stops retrying a provider that keeps failing)
  * - Load balancing (future)
- * - Comprehensive error handling
+ * - Classified errors with a per-class fallback policy
+ * - Cost recording and per-provider budget enforcement
+ * - Per-provider rate limiting and concurrency (honours Retry-After)
+ * - Cancellation and timeouts (request.signal / request.timeoutMs)
+ * - Crop-or-pad to the requested aspect ratio when a provider can't produce it
+ * - Edit requests routed only to providers with the editing capability
+ * - Dry-run explanation of the fallback chain (no provider calls)
+ * - provider-attempt / fallback progress events
  */
 
-import { spawn } from 'child_process';
+import * as fs from 'fs';
 import * as path from 'path';
 import {
+  ProviderAdapter,
   ProviderConfig,
+  ProviderResponse,
   ProviderHealth,
   ProviderFallbackChain,
   ImageGenerationRequest,
   ImageGenerationResult,
-  GlobalConfig
+  GlobalConfig,
+  CircuitBreakerConfig,
+  GenerationAttempt,
+  FallbackPlan,
+  ProviderErrorClass
 } from './types';
+import { LegacyCliAdapter } from './legacy-cli-adapter';
+import { checkCapabilities, getRegistrationFor } from './provider-registry';
+import { CircuitBreaker } from './circuit-breaker';
+import { classifyError, shouldFallback } from './provider-errors';
+import { CostTracker } from './cost-tracker';
+import { RateLimiter } from './rate-limiter';
+import { extensionForMimeType, imageDimensions, mimeTypeFromPath, sniffMimeType } from './provider-adapter';
+import { abortReason, createGenerationSignal, raceAbort, throwIfAborted } from './cancellation';
+import { conformToAspectRatio, convertImage, dimensionsFor, parseAspectRatio } from './image-processing';
+import { ProgressEmitter } from './progress-events';
+import { Logger, defaultLogger } from './logger';
+
+export interface ProviderManagerOptions {
+  healthProbes?: boolean;
+  probeTimeoutMs?: number;
+  circuitBreaker?: CircuitBreakerConfig;
+  costTracker?: CostTracker;
+  rateLimiter?: RateLimiter;
+  events?: ProgressEmitter;
+  logger?: Logger;
+}
+
+const DEFAULT_PROBE_TIMEOUT_MS = 10000;
 
 export class ProviderManager {
   private repositoryPath: string;
   private healthCache: Map<string, ProviderHealth>;
   private healthCheckTTL: number = 300000; // 5 minutes
+  private adapters: Map<string, ProviderAdapter>;
+  private legacyAdapter: LegacyCliAdapter;
+  private circuitBreakers: Map<string, CircuitBreaker>;
+  private options: ProviderManagerOptions;
+  private logger: Logger;
 
-  constructor(repositoryPath: string) {
+  constructor(repositoryPath: string, options: ProviderManagerOptions = {}) {
     this.repositoryPath = repositoryPath;
+    this.options = options;
+    this.logger = (options.logger || defaultLogger()).child('ProviderManager');
     this.healthCache = new Map();
+    this.legacyAdapter = new LegacyCliAdapter(repositoryPath, options.events);
+    this.adapters = new Map();
+    this.circuitBreakers = new Map();
   }
 
   /**
    * Generate image with automatic provider fallback
+   * Aborting request.signal (or exceeding request.timeoutMs) stops the chain
    */
   async generateWithFallback(
     request: ImageGenerationRequest,
     config: GlobalConfig
   ): Promise<ImageGenerationResult> {
+    const generationSignal = createGenerationSignal(request.signal, request.timeoutMs);
+    try {
+      return await this.runFallbackChain({ ...request, signal: generationSignal.signal }, config);
+    } finally {
+      generationSignal.dispose();
+    }
+  }
+
+  /**
+   * Walk the fallback chain for a request
+   */
+  private async runFallbackChain(
+    request: ImageGenerationRequest,
+    config: GlobalConfig
+  ): Promise<ImageGenerationResult> {
+    const refusal = this.preflight(request, config);
+    if (refusal) {
+      return { success: false, ...refusal };
+    }
+
     const fallbackChain = this.buildFallbackChain(request, config);
+    if (!fallbackChain) {
+      return {
+        success: false,
+        error: request.mode === 'edit'
+          ? 'No enabled provider supports image editing'
+          : 'No enabled provider can handle this request'
+      };
+    }
 
-    console.log(`[ProviderManager] Fallback chain: ${fallbackChain.primary.name} → ${fallbackChain.fallbacks.map(p => p.name).join(' → ')}`);
+    this.logger.info(`Fallback chain: ${fallbackChain.primary.name} → ${fallbackChain.fallbacks.map(p => p.name).join(' → ')}`);
+
+    const attempts: GenerationAttempt[] = [];
 
     // Try primary provider
-    let result = await this.tryProvider(fallbackChain.primary, request);
+    let result = await this.tryProvider(fallbackChain.primary, request, attempts, 'primary');
 
     if (result.success) {
-      return result;
+      return { ...result, attempts };
+    }
+
+    if (request.signal?.aborted) {
+      return this.abortedResult(request.signal, attempts);
     }
 
-    // Try fallback providers
-    if (config.autoFallback && fallbackChain.fallbacks.length > 0) {
-      console.log(`[ProviderManager] Primary provider failed, trying fallbacks...`);
+    // Try fallback providers, unless the error would repeat on every provider
+    let stoppedByPolicy = !shouldFallback(result.errorClass || 'unknown', config.fallbackPolicy);
+
+    if (config.autoFallback && fallbackChain.fallbacks.length > 0 && !stoppedByPolicy) {
+      this.logger.info(`Primary provider failed, trying fallbacks...`);
 
       for (const provider of fallbackChain.fallbacks) {
-        console.log(`[ProviderManager] Trying fallback: ${provider.name}`);
-        result = await this.tryProvider(provider, request);
+        this.logger.info(`Trying fallback: ${provider.name}`);
+        this.options.events?.emit('fallback', {
+          from: result.provider || attempts[attempts.length - 1].provider,
+          to: provider.name,
+          errorClass: result.errorClass,
+          error: result.error
+        });
+        result = await this.tryProvider(provider, request, attempts, 'fallback');
 
         if (result.success) {
           result.fallbackUsed = true;
-          return result;
+          return { ...result, attempts };
+        }
+
+        if (request.signal?.aborted) {
+          return this.abortedResult(request.signal, attempts);
+        }
+
+        if (!shouldFallback(result.errorClass || 'unknown', config.fallbackPolicy)) {
+          stoppedByPolicy = true;
+          break;
         }
       }
     }
 
+    if (stoppedByPolicy) {
+      this.logger.info(`Not falling back after ${result.errorClass} error from ${result.provider}`);
+      return {
+        success: false,
+        error: `${result.provider} failed with ${result.errorClass} error (not retried on other providers): ${result.error}`,
+        errorClass: result.errorClass,
+        provider: result.provider,
+        attempts
+      };
+    }
+
     // All providers failed
     return {
       success: false,
-      error: `All providers failed. Last error: ${result.error}`
+      error: `All providers failed. Last error: ${result.error}`,
+      errorClass: result.errorClass,
+      attempts
     };
   }
 
   /**
-   * Try a specific provider
+   * Explain what generateWithFallback would do, without calling any provider
+   * Health comes from the cache when fresh, otherwise from credential checks only
+   */
+  async explainChain(request: ImageGenerationRequest, config: GlobalConfig): Promise<FallbackPlan> {
+    const plan: FallbackPlan = {
+      chain: [],
+      skipped: [],
+      autoFallback: config.autoFallback
+    };
+
+    for (const provider of config.providers) {
+      const reason = provider.enabled ? this.skipReason(provider, request) : 'disabled';
+      if (reason) {
+        plan.skipped.push({ provider: provider.name, reason });
+      }
+    }
+
+    const refusal = this.preflight(request, config);
+    if (refusal) {
+      return { ...plan, ...refusal };
+    }
+
+    const fallbackChain = this.buildFallbackChain(request, config);
+    if (!fallbackChain) {
+      return {
+        ...plan,
+        error: request.mode === 'edit'
+          ? 'No enabled provider supports image editing'
+          : 'No enabled provider can handle this request'
+      };
+    }
+
+    const providers = config.autoFallback
+      ? [fallbackChain.primary, ...fallbackChain.fallbacks]
+      : [fallbackChain.primary];
+
+    for (const provider of providers) {
+      plan.chain.push({
+        provider: provider.name,
+        role: provider === fallbackChain.primary ? 'primary' : 'fallback',
+        adapter: provider.adapter === 'legacy-cli' ? 'legacy-cli' : 'native',
+        model: provider.model,
+        health: this.peekHealth(provider),
+        estimatedCost: this.estimateCost(provider, request)
+      });
+    }
+
+    // Providers kept as an aspect-ratio last resort are in the chain, not skipped
+    plan.skipped = plan.skipped.filter(skip => !plan.chain.some(entry => entry.provider === skip.provider));
+
+    // Unhealthy providers and open circuits are passed over at generation time
+    plan.expectedProvider = plan.chain.find(entry => entry.health.healthy && entry.health.circuit !== 'open')?.provider;
+
+    return plan;
+  }
+
+  /**
+   * Checks that refuse a request before any provider is tried
+   */
+  private preflight(
+    request: ImageGenerationRequest,
+    config: GlobalConfig
+  ): { error: string; errorClass: ProviderErrorClass } | null {
+    if (request.aspectRatio && !parseAspectRatio(request.aspectRatio)) {
+      return {
+        error: `Invalid aspect ratio: ${request.aspectRatio} (expected e.g. 16:9)`,
+        errorClass: 'invalid-request'
+      };
+    }
+
+    const editError = this.validateEdit(request);
+    if (editError) {
+      return { error: editError, errorClass: 'invalid-request' };
+    }
+
+    const budgetError = this.checkBudgets(request, config);
+    if (budgetError) {
+      return { error: budgetError, errorClass: 'quota' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Result for a cancelled or timed out generation
+   */
+  private abortedResult(signal: AbortSignal, attempts: GenerationAttempt[]): ImageGenerationResult {
+    const reason = abortReason(signal);
+    const timedOut = reason.kind === 'timed-out';
+    this.logger.info(reason.message);
+
+    return {
+      success: false,
+      error: reason.message,
+      errorClass: timedOut ? 'timeout' : undefined,
+      cancelled: !timedOut,
+      timedOut,
+      attempts
+    };
+  }
+
+  /**
+   * Try a provider and record the attempt
    */
   private async tryProvider(
+    provider: ProviderConfig,
+    request: ImageGenerationRequest,
+    attempts: GenerationAttempt[],
+    role: 'primary' | 'fallback'
+  ): Promise<ImageGenerationResult> {
+    this.options.events?.emit('provider-attempt', {
+      provider: provider.name,
+      model: provider.model,
+      role,
+      attempt: attempts.length + 1
+    });
+
+    const startedAt = Date.now();
+    const result = await this.executeProvider(provider, request);
+
+    attempts.push({
+      provider: provider.name,
+      model: result.model || provider.model,
+      success: result.success,
+      errorClass: result.errorClass,
+      error: result.error,
+      durationMs: Date.now() - startedAt
+    });
+
+    return result;
+  }
+
+  /**
+   * Execute generation on a specific provider
+   */
+  private async executeProvider(
     provider: ProviderConfig,
     request: ImageGenerationRequest
   ): Promise<ImageGenerationResult> {
-    console.log(`[ProviderManager] Attempting generation with ${provider.name}`);
+    this.logger.info(`Attempting generation with ${provider.name}`);
+
+    // Checked before the breaker, so a misconfigured provider never claims its half-open trial
+    const adapter = this.getAdapter(provider);
+    if (!adapter) {
+      return {
+        success: false,
+        error: `No adapter available for provider ${provider.name}`,
+        errorClass: 'invalid-request',
+        provider: provider.name
+      };
+    }
 
+    // Skip providers whose circuit is open
+    const breaker = this.getCircuitBreaker(provider.name);
+    const halfOpenTrial = breaker.getState() === 'half-open';
+    if (!breaker.canAttempt()) {
+      return {
+        success: false,
+        error: `Provider ${provider.name} circuit is open (retry in ${Math.ceil(breaker.getRetryInMs() / 1000)}s)`,
+        errorClass: 'transient',
+        provider: provider.name
+      };
+    }
+
+    try {
+      return await this.attemptProvider(provider, request, adapter, breaker);
+    } finally {
+      // Exits that record no outcome (cancellation) must not keep the half-open trial
+      if (halfOpenTrial) {
+        breaker.releaseTrial();
+      }
+    }
+  }
+
+  /**
+   * Health check, rate limit and adapter call for a provider whose breaker allowed the attempt
+   */
+  private async attemptProvider(
+    provider: ProviderConfig,
+    request: ImageGenerationRequest,
+    adapter: ProviderAdapter,
+    breaker: CircuitBreaker
+  ): Promise<ImageGenerationResult> {
     // Check provider health first
-    const health = await this.checkHealth(provider);
+    const cachedAt = this.healthCache.get(provider.name)?.lastChecked;
+    let health: ProviderHealth;
+    try {
+      health = await raceAbort(this.checkHealth(provider), request.signal);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        provider: provider.name
+      };
+    }
+
     if (!health.healthy) {
+      // Only a fresh probe counts; a cached result was already recorded when it was taken
+      if (health.lastChecked !== cachedAt) {
+        breaker.recordFailure();
+      }
       return {
         success: false,
         error: `Provider ${provider.name} is unhealthy: ${health.error}`,
+        errorClass: health.errorClass || 'transient',
         provider: provider.name
       };
     }
 
-    // Execute generation via Node.js CLI
-    const scriptPath = path.join(this.repositoryPath, 'scripts', 'generate.js');
-    const args = [scriptPath];
+    // Relative output paths resolve against the repository (as generate.js did)
+    let outputPath = path.resolve(this.repositoryPath, request.outputPath || `image_${Date.now()}.png`);
+
+    // Written via a partial file so an interrupted write never leaves a truncated image
+    let partialPath = `${outputPath}.partial`;
+
+    const rateLimiter = this.options.rateLimiter || RateLimiter.shared();
+    let release: (() => void) | undefined;
 
-    // Add provider and model
-    args.push('--provider', provider.name);
-    if (provider.model) {
-      args.push('--model', provider.model);
+    try {
+      release = await rateLimiter.acquire(provider.name, request.signal);
+
+      // Seeds only reach providers that honour them (generate.js takes no seed)
+      const seed = adapter !== this.legacyAdapter && getRegistrationFor(provider)?.capabilities.seeds
+        ? request.seed
+        : undefined;
+      const response = await adapter.generate(provider, { ...request, seed, outputPath });
+      throwIfAborted(request.signal);
+
+      if (request.aspectRatio) {
+        const conformed = await conformToAspectRatio(response.data, request.aspectRatio, request.aspectFit);
+        if (conformed) {
+          this.logger.info(`${request.aspectFit === 'pad' ? 'Padded' : 'Cropped'} ${provider.name} output to ${request.aspectRatio}`);
+          response.data = conformed;
+        }
+      }
+
+      // Providers may answer with JPEG or WebP: convert to the extension's format,
+      // or (without sharp) save under the extension of what was returned
+      const actualType = sniffMimeType(response.data);
+      const expectedType = mimeTypeFromPath(outputPath);
+      if (actualType !== expectedType) {
+        const converted = await convertImage(response.data, expectedType);
+        if (converted) {
+          this.logger.debug(`Converted ${provider.name} output from ${actualType} to ${expectedType}`);
+          response.data = converted;
+        } else {
+          const extension = path.extname(outputPath);
+          outputPath = `${outputPath.slice(0, outputPath.length - extension.length)}.${extensionForMimeType(actualType)}`;
+          partialPath = `${outputPath}.partial`;
+          this.logger.warn(`${provider.name} returned ${actualType}; saving as ${outputPath}`);
+        }
+      }
+      response.mimeType = sniffMimeType(response.data);
+
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.writeFileSync(partialPath, response.data);
+      fs.renameSync(partialPath, outputPath);
+      breaker.recordSuccess();
+
+      const cost = this.recordCost(provider, request, response);
+
+      return {
+        success: true,
+        path: outputPath,
+        provider: provider.name,
+        model: response.model,
+        mimeType: response.mimeType,
+        usage: response.usage,
+        seed: response.seed ?? seed,
+        cost
+      };
+    } catch (error) {
+      fs.rmSync(partialPath, { force: true });
+
+      // Cancellation says nothing about the provider's health
+      if (request.signal?.aborted) {
+        return {
+          success: false,
+          error: abortReason(request.signal).message,
+          provider: provider.name
+        };
+      }
+
+      const providerError = classifyError(error);
+
+      if (providerError.retryAfterMs !== undefined) {
+        rateLimiter.penalize(provider.name, providerError.retryAfterMs);
+      }
+
+      // Safety blocks and invalid requests say nothing about the provider's health
+      if (providerError.errorClass !== 'safety' && providerError.errorClass !== 'invalid-request') {
+        breaker.recordFailure();
+      }
+
+      return {
+        success: false,
+        error: providerError.message,
+        errorClass: providerError.errorClass,
+        provider: provider.name
+      };
+    } finally {
+      release?.();
+    }
+  }
+
+  /**
+   * Check that an edit request's source image and mask exist
+   */
+  private validateEdit(request: ImageGenerationRequest): string | null {
+    if (request.mode !== 'edit') {
+      return null;
+    }
+    if (!request.sourceImagePath) {
+      return 'Edit mode requires a source image';
+    }
+    if (!fs.existsSync(request.sourceImagePath)) {
+      return `Source image not found: ${request.sourceImagePath}`;
     }
+    if (request.maskPath && !fs.existsSync(request.maskPath)) {
+      return `Mask not found: ${request.maskPath}`;
+    }
+    return null;
+  }
 
-    // Add template if specified
-    if (request.template) {
-      args.push('--template', request.template);
+  /**
+   * Estimated cost of one image from the price table (prompt tokens approximated as chars / 4)
+   */
+  private estimateCost(provider: ProviderConfig, request: ImageGenerationRequest): number | undefined {
+    if (!this.options.costTracker) {
+      return undefined;
     }
 
-    // Add type if specified
-    if (request.type) {
-      args.push('--type', request.type);
+    const size = request.aspectRatio || request.resolution
+      ? dimensionsFor(request.aspectRatio, request.resolution)
+      : { width: provider.width || 1024, height: provider.height || 1024 };
+    const inputTokens = Math.ceil((request.prompt.length + (request.systemInstruction?.length || 0)) / 4);
+
+    return this.options.costTracker.estimateCost(
+      provider.name,
+      provider.model || '',
+      CostTracker.resolutionTier(size.width, size.height),
+      { inputTokens, outputTokens: 0, totalTokens: inputTokens }
+    );
+  }
+
+  /**
+   * Record a successful generation with the cost tracker
+   */
+  private recordCost(
+    provider: ProviderConfig,
+    request: ImageGenerationRequest,
+    response: ProviderResponse
+  ): number | undefined {
+    if (!this.options.costTracker) {
+      return undefined;
     }
 
-    // Add prompt
-    args.push('--prompt', request.prompt);
+    const dimensions = imageDimensions(response.data);
+    const record = this.options.costTracker.record({
+      provider: provider.name,
+      model: response.model,
+      template: request.template,
+      resolution: CostTracker.resolutionTier(dimensions?.width, dimensions?.height),
+      width: dimensions?.width,
+      height: dimensions?.height,
+      usage: response.usage
+    });
 
-    // Add output path
-    const outputPath = request.outputPath || `image_${Date.now()}.png`;
-    args.push('--output', outputPath);
+    return record.cost;
+  }
 
-    // Add style grid if specified
-    if (request.styleGridPath) {
-      args.push('--style-grid', request.styleGridPath);
+  /**
+   * Refuse the request when budgets are exhausted
+   * (always when every provider is out of budget; for the primary too with `onBudgetExhausted: refuse`)
+   */
+  private checkBudgets(request: ImageGenerationRequest, config: GlobalConfig): string | null {
+    const tracker = this.options.costTracker;
+    if (!tracker) {
+      return null;
     }
 
-    // Execute
-    return new Promise((resolve) => {
-      const env = {
-        ...process.env
-      };
+    const enabled = config.providers.filter(p => p.enabled);
+    const exhausted = enabled
+      .map(p => ({ provider: p.name, budget: tracker.getExhaustedBudget(p.name) }))
+      .filter(e => e.budget !== null);
 
-      // Set API key in environment
-      if (provider.name === 'gemini') {
-        env.GOOGLE_API_KEY = provider.apiKey || '';
-      } else if (provider.name === 'openrouter') {
-        env.OPENROUTER_API_KEY = provider.apiKey || '';
-      } else if (provider.name === 'vertexai') {
-        env.GOOGLE_CLOUD_PROJECT = provider.project || env.GOOGLE_CLOUD_PROJECT || '';
-        env.GOOGLE_CLOUD_LOCATION = provider.location || env.GOOGLE_CLOUD_LOCATION || 'global';
-        env.GOOGLE_GENAI_USE_VERTEXAI = 'true';
-      }
+    if (exhausted.length === 0) {
+      return null;
+    }
 
-      const nodeProcess = spawn('node', args, {
-        cwd: this.repositoryPath,
-        env
-      });
+    const describe = exhausted.map(e => `${e.provider} (${e.budget!.period} limit ${e.budget!.limit})`).join(', ');
+    const primaryName = request.provider || config.defaultProvider;
 
-      let stdout = '';
-      let stderr = '';
+    if (exhausted.length === enabled.length) {
+      return `Budget exhausted for all providers: ${describe}`;
+    }
 
-      nodeProcess.stdout.on('data', (data) => {
-        const output = data.toString();
-        stdout += output;
-        process.stdout.write(output);
-      });
+    if (config.onBudgetExhausted === 'refuse' && exhausted.some(e => e.provider === primaryName)) {
+      return `Budget exhausted: ${describe}`;
+    }
 
-      nodeProcess.stderr.on('data', (data) => {
-        const output = data.toString();
-        stderr += output;
-        process.stderr.write(output);
-      });
+    return null;
+  }
 
-      nodeProcess.on('close', (code) => {
-        if (code === 0) {
-          resolve({
-            success: true,
-            path: outputPath,
-            provider: provider.name,
-            model: provider.model
-          });
-        } else {
-          resolve({
-            success: false,
-            error: stderr || stdout || `Process exited with code ${code}`,
-            provider: provider.name
-          });
-        }
-      });
+  /**
+   * Get (or create) the circuit breaker for a provider
+   */
+  private getCircuitBreaker(providerName: string): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(providerName);
+    if (!breaker) {
+      const config = this.options.circuitBreaker;
+      breaker = new CircuitBreaker(config?.failureThreshold, config?.cooldownMs);
+      this.circuitBreakers.set(providerName, breaker);
+    }
+    return breaker;
+  }
 
-      nodeProcess.on('error', (error) => {
-        resolve({
-          success: false,
-          error: `Failed to spawn process: ${error.message}`,
-          provider: provider.name
-        });
-      });
-    });
+  /**
+   * Resolve the adapter for a provider (native unless `adapter: legacy-cli`)
+   */
+  private getAdapter(provider: ProviderConfig): ProviderAdapter | undefined {
+    if (provider.adapter === 'legacy-cli') {
+      return this.legacyAdapter;
+    }
+
+    const registration = getRegistrationFor(provider);
+    if (!registration) {
+      return undefined;
+    }
+
+    // Adapters are created once per registration and reused
+    let adapter = this.adapters.get(registration.name);
+    if (!adapter) {
+      adapter = registration.createAdapter(this.options.logger || defaultLogger());
+      this.adapters.set(registration.name, adapter);
+    }
+    return adapter;
   }
 
   /**
@@ -190,30 +628,41 @@ export class ProviderManager {
   private buildFallbackChain(
     request: ImageGenerationRequest,
     config: GlobalConfig
-  ): ProviderFallbackChain {
-    const enabledProviders = config.providers
+  ): ProviderFallbackChain | null {
+    const byPriority = (a: ProviderConfig, b: ProviderConfig) => a.priority - b.priority;
+    const capable = config.providers
       .filter(p => p.enabled)
-      .sort((a, b) => a.priority - b.priority);
+      .filter(p => this.canHandle(p, request))
+      .sort(byPriority);
+
+    // Providers that only miss the aspect ratio stay as a last resort (their output is cropped or padded)
+    const conformable = request.aspectRatio
+      ? config.providers
+        .filter(p => p.enabled && !capable.includes(p))
+        .filter(p => !this.skipReason(p, { ...request, aspectRatio: undefined }))
+        .sort(byPriority)
+      : [];
+    const enabledProviders = [...capable, ...conformable];
 
     // If provider specified in request, use it as primary
     if (request.provider) {
       const requestedProvider = enabledProviders.find(p => p.name === request.provider);
       if (requestedProvider) {
-        // Override model if specified
-        if (request.model) {
-          requestedProvider.model = request.model;
-        }
-
+        // Override model if specified (on a copy, so the config keeps its default)
         return {
-          primary: requestedProvider,
+          primary: request.model ? { ...requestedProvider, model: request.model } : requestedProvider,
           fallbacks: enabledProviders.filter(p => p.name !== request.provider)
         };
       }
     }
 
-    // Use default provider as primary
-    const defaultProvider = enabledProviders.find(p => p.name === config.defaultProvider);
-    const primary = defaultProvider || enabledProviders[0];
+    // Use default provider as primary, preferring providers that produce the aspect ratio natively
+    const pool = capable.length > 0 ? capable : conformable;
+    const defaultProvider = pool.find(p => p.name === config.defaultProvider);
+    const primary = defaultProvider || pool[0];
+    if (!primary) {
+      return null;
+    }
 
     return {
       primary,
@@ -221,6 +670,39 @@ export class ProviderManager {
     };
   }
 
+  /**
+   * Check whether a provider is within budget, registered and capable of handling a request
+   */
+  private canHandle(provider: ProviderConfig, request: ImageGenerationRequest): boolean {
+    const reason = this.skipReason(provider, request);
+    if (reason) {
+      this.logger.info(`Skipping ${provider.name}: ${reason}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Why a provider can't take a request (null when it can)
+   */
+  private skipReason(provider: ProviderConfig, request: ImageGenerationRequest): string | null {
+    const budget = this.options.costTracker?.getExhaustedBudget(provider.name);
+    if (budget) {
+      return `${budget.period} budget of ${budget.limit} exhausted`;
+    }
+
+    const registration = getRegistrationFor(provider);
+    if (!registration) {
+      return 'no provider registered';
+    }
+
+    // generate.js only creates images from scratch
+    return provider.adapter === 'legacy-cli' && request.mode === 'edit'
+      ? 'image editing not supported by the legacy CLI adapter'
+      : checkCapabilities(registration.capabilities, request);
+  }
+
   /**
    * Check provider health
    */
@@ -228,7 +710,7 @@ export class ProviderManager {
     // Check cache first
     const cached = this.healthCache.get(provider.name);
     if (cached && Date.now() - cached.lastChecked < this.healthCheckTTL) {
-      return cached;
+      return this.withCircuitState(cached);
     }
 
     // Perform health check
@@ -238,24 +720,76 @@ export class ProviderManager {
       lastChecked: Date.now()
     };
 
-    // Basic validation: check if API key is present
-    if (provider.name === 'vertexai') {
-      if (!provider.project && !process.env.GOOGLE_CLOUD_PROJECT) {
-        health.healthy = false;
-        health.error = 'GOOGLE_CLOUD_PROJECT not configured';
-      }
-    } else if (!provider.apiKey || provider.apiKey.length === 0) {
+    // Basic validation: let the registration check its credentials
+    const registration = getRegistrationFor(provider);
+    const credentialError = registration
+      ? registration.validateCredentials?.(provider) ?? null
+      : `Unknown provider type: ${provider.type || provider.name}`;
+
+    if (credentialError) {
       health.healthy = false;
-      health.error = 'API key not configured';
+      health.error = credentialError;
+      health.errorClass = 'auth';
+    } else if (this.options.healthProbes !== false) {
+      // Active probe (models-list / token validation) where the adapter supports it
+      const adapter = this.getAdapter(provider);
+      if (adapter?.probe) {
+        const startedAt = Date.now();
+        const timeoutMs = this.options.probeTimeoutMs || DEFAULT_PROBE_TIMEOUT_MS;
+        const signal = AbortSignal.timeout(timeoutMs);
+        try {
+          await adapter.probe(provider, signal);
+        } catch (error) {
+          const providerError = classifyError(error);
+          health.healthy = false;
+          health.error = signal.aborted
+            ? `Probe timed out after ${timeoutMs}ms`
+            : `Probe failed: ${providerError.message}`;
+          health.errorClass = signal.aborted ? 'timeout' : providerError.errorClass;
+        }
+        health.latencyMs = Date.now() - startedAt;
+      }
     }
 
-    // Future: Add actual API health checks here
-    // For now, just validate configuration
-
     // Update cache
     this.healthCache.set(provider.name, health);
 
-    return health;
+    return this.withCircuitState(health);
+  }
+
+  /**
+   * Cached health when fresh, otherwise a credential check only (never probes)
+   */
+  private peekHealth(provider: ProviderConfig): ProviderHealth {
+    const cached = this.healthCache.get(provider.name);
+    if (cached && Date.now() - cached.lastChecked < this.healthCheckTTL) {
+      return this.withCircuitState(cached);
+    }
+
+    const registration = getRegistrationFor(provider);
+    const credentialError = registration
+      ? registration.validateCredentials?.(provider) ?? null
+      : `Unknown provider type: ${provider.type || provider.name}`;
+
+    return this.withCircuitState({
+      provider: provider.name,
+      healthy: !credentialError,
+      lastChecked: Date.now(),
+      error: credentialError || undefined,
+      errorClass: credentialError ? 'auth' : undefined
+    });
+  }
+
+  /**
+   * Attach the provider's current circuit breaker state to a health record
+   */
+  private withCircuitState(health: ProviderHealth): ProviderHealth {
+    const breaker = this.getCircuitBreaker(health.provider);
+    return {
+      ...health,
+      circuit: breaker.getState(),
+      consecutiveFailures: breaker.getConsecutiveFailures()
+    };
   }
 
   /**
@@ -294,7 +828,7 @@ export class ProviderManager {
   async selectBestProvider(config: GlobalConfig): Promise<ProviderConfig | null> {
     const healthStatuses = await this.getHealthStatus(config);
     const healthyProviders = healthStatuses
-      .filter(h => h.healthy)
+      .filter(h => h.healthy && h.circuit !== 'open')
       .map(h => config.providers.find(p => p.name === h.provider)!)
       .filter(p => p.enabled)
       .sort((a, b) => a.priority - b.priority);
@@ -303,10 +837,11 @@ export class ProviderManager {
   }
 
   /**
-   * Clear health cache
+   * Clear health cache (also closes all circuit breakers)
    */
   clearHealthCache(): void {
     this.healthCache.clear();
-    console.log('[ProviderManager] Health cache cleared');
+    this.circuitBreakers.clear();
+    this.logger.info('Health cache cleared');
   }
 }
@@ -0,0 +1,100 @@
+/**
+ * Provider Registry
+ *
+ * Central lookup for provider backends. Each registration declares:
+ * - Environment discovery (discoverFromEnv)
+ * - Credential validation (validateCredentials)
+ * - Request mapping (createAdapter)
+ * - Capabilities (aspect ratios, editing, max prompt length, seeds)
+ *
+ * Built-in providers are registered on load; in-house backends can be
+ * added with registerProvider() without forking the plugin.
+ */
+
+import {
+  ProviderCapabilities,
+  ProviderConfig,
+  ProviderRegistration,
+  ImageGenerationRequest
+} from './types';
+import { BUILTIN_PROVIDERS } from './builtin-providers';
+import { parseAspectRatio } from './image-processing';
+
+const registrations = new Map<string, ProviderRegistration>();
+
+/**
+ * Register (or replace) a provider backend
+ */
+export function registerProvider(registration: ProviderRegistration): void {
+  registrations.set(registration.name, registration);
+}
+
+/**
+ * Remove a provider registration
+ */
+export function unregisterProvider(name: string): boolean {
+  return registrations.delete(name);
+}
+
+/**
+ * Get a registration by name
+ */
+export function getProviderRegistration(name: string): ProviderRegistration | undefined {
+  return registrations.get(name);
+}
+
+/**
+ * Get the registration for a configured provider (`type` defaults to `name`)
+ */
+export function getRegistrationFor(provider: ProviderConfig): ProviderRegistration | undefined {
+  return registrations.get(provider.type || provider.name);
+}
+
+/**
+ * List all registered providers
+ */
+export function listProviderRegistrations(): ProviderRegistration[] {
+  return Array.from(registrations.values());
+}
+
+/**
+ * Check whether a provider's capabilities cover a request
+ * Returns the reason it cannot, or null when supported
+ */
+export function checkCapabilities(
+  capabilities: ProviderCapabilities,
+  request: ImageGenerationRequest
+): string | null {
+  if (capabilities.maxPromptLength && request.prompt.length > capabilities.maxPromptLength) {
+    return `prompt exceeds ${capabilities.maxPromptLength} characters`;
+  }
+
+  if (request.mode === 'edit' && !capabilities.editing) {
+    return 'image editing not supported';
+  }
+
+  if (request.aspectRatio && capabilities.aspectRatios && !supportsAspectRatio(capabilities.aspectRatios, request.aspectRatio)) {
+    return `aspect ratio ${request.aspectRatio} not supported`;
+  }
+
+  return null;
+}
+
+/**
+ * Whether one of the supported ratios has the same value as the requested one (16:9 matches 32:18)
+ */
+function supportsAspectRatio(supported: string[], aspectRatio: string): boolean {
+  const target = parseAspectRatio(aspectRatio);
+  if (!target) {
+    return false;
+  }
+
+  return supported.some(candidate => {
+    const parsed = parseAspectRatio(candidate);
+    return !!parsed && Math.abs(parsed.width / parsed.height - target.width / target.height) < 1e-6;
+  });
+}
+
+for (const registration of BUILTIN_PROVIDERS) {
+  registerProvider(registration);
+}
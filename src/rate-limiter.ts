@@ -0,0 +1,191 @@
+/**
+ * Rate Limiter
+ *
+ * Per-provider throttling shared by orchestrator generations and
+ * style reference grid generation:
+ * - Token bucket (requestsPerMinute with optional burst)
+ * - Max concurrent requests
+ * - Pauses from Retry-After headers (429 / 503 responses)
+ *
+ * Waiters are served in FIFO order per provider; an aborted waiter
+ * gives up its place without taking a slot.
+ */
+
+import { RateLimitConfig } from './types';
+import { sleep } from './provider-adapter';
+import { raceAbort, throwIfAborted } from './cancellation';
+
+interface LimiterState {
+  tokens: number;
+  capacity: number;
+  refillPerMs: number;
+  lastRefill: number;
+  maxConcurrency: number;
+  active: number;
+  pausedUntil: number;
+  queue: Promise<void>;
+  slotWaiters: Array<() => void>;
+}
+
+export class RateLimiter {
+  private static sharedInstance?: RateLimiter;
+  private limits: Map<string, RateLimitConfig> = new Map();
+  private states: Map<string, LimiterState> = new Map();
+
+  /**
+   * Process-wide limiter (used unless a component is given its own)
+   */
+  static shared(): RateLimiter {
+    if (!RateLimiter.sharedInstance) {
+      RateLimiter.sharedInstance = new RateLimiter();
+    }
+    return RateLimiter.sharedInstance;
+  }
+
+  constructor(limits: RateLimitConfig[] = []) {
+    this.configure(limits);
+  }
+
+  /**
+   * Replace the configured limits (in-flight counts and pauses are kept)
+   */
+  configure(limits: RateLimitConfig[]): void {
+    this.limits = new Map(limits.map(limit => [limit.provider, limit]));
+
+    for (const [provider, state] of this.states) {
+      this.applyLimits(state, this.limits.get(provider));
+    }
+  }
+
+  /**
+   * Wait for a request slot; call the returned function when the request finishes
+   */
+  async acquire(provider: string, signal?: AbortSignal): Promise<() => void> {
+    const state = this.getState(provider);
+
+    const turn = state.queue.then(() => this.waitForSlot(state, signal));
+    state.queue = turn.catch(() => undefined);
+    try {
+      await raceAbort(turn, signal);
+    } catch (error) {
+      // The slot may have been taken just as the caller aborted
+      turn.then(() => this.releaseSlot(state), () => undefined);
+      throw error;
+    }
+
+    let released = false;
+
+    return () => {
+      if (released) return;
+      released = true;
+      this.releaseSlot(state);
+    };
+  }
+
+  /**
+   * Whether a requestsPerMinute or maxConcurrency limit is configured for a provider
+   */
+  hasLimit(provider: string): boolean {
+    const limit = this.limits.get(provider);
+    return Boolean(limit?.requestsPerMinute || limit?.maxConcurrency);
+  }
+
+  /**
+   * Pause a provider (e.g. from a Retry-After header)
+   */
+  penalize(provider: string, retryAfterMs: number): void {
+    const state = this.getState(provider);
+    state.pausedUntil = Math.max(state.pausedUntil, Date.now() + retryAfterMs);
+  }
+
+  /**
+   * Current limiter status for a provider
+   */
+  getStatus(provider: string): { active: number; tokens: number; pausedForMs: number } {
+    const state = this.getState(provider);
+    this.refill(state, Date.now());
+    return {
+      active: state.active,
+      tokens: Math.floor(state.tokens),
+      pausedForMs: Math.max(0, state.pausedUntil - Date.now())
+    };
+  }
+
+  private async waitForSlot(state: LimiterState, signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      throwIfAborted(signal);
+      const now = Date.now();
+      this.refill(state, now);
+
+      if (now < state.pausedUntil) {
+        await sleep(state.pausedUntil - now, signal);
+      } else if (state.active >= state.maxConcurrency) {
+        await this.waitForRelease(state, signal);
+      } else if (state.tokens < 1) {
+        await sleep(Math.ceil((1 - state.tokens) / state.refillPerMs), signal);
+      } else {
+        // Take the token and the slot together, before the next waiter looks
+        state.tokens -= 1;
+        state.active++;
+        return;
+      }
+    }
+  }
+
+  private releaseSlot(state: LimiterState): void {
+    state.active--;
+    state.slotWaiters.shift()?.();
+  }
+
+  private waitForRelease(state: LimiterState, signal?: AbortSignal): Promise<void> {
+    let waiter!: () => void;
+    const released = new Promise<void>(resolve => {
+      waiter = resolve;
+      state.slotWaiters.push(resolve);
+    });
+
+    return raceAbort(released, signal).catch(error => {
+      state.slotWaiters = state.slotWaiters.filter(w => w !== waiter);
+      throw error;
+    });
+  }
+
+  private refill(state: LimiterState, now: number): void {
+    if (state.capacity === Infinity) return;
+    state.tokens = Math.min(state.capacity, state.tokens + (now - state.lastRefill) * state.refillPerMs);
+    state.lastRefill = now;
+  }
+
+  private getState(provider: string): LimiterState {
+    let state = this.states.get(provider);
+    if (!state) {
+      state = {
+        tokens: Infinity,
+        capacity: Infinity,
+        refillPerMs: 0,
+        lastRefill: Date.now(),
+        maxConcurrency: Infinity,
+        active: 0,
+        pausedUntil: 0,
+        queue: Promise.resolve(),
+        slotWaiters: []
+      };
+      this.applyLimits(state, this.limits.get(provider));
+      this.states.set(provider, state);
+    }
+    return state;
+  }
+
+  private applyLimits(state: LimiterState, limit?: RateLimitConfig): void {
+    const rpm = limit?.requestsPerMinute;
+    state.capacity = rpm ? Math.max(1, limit?.burst || 1) : Infinity;
+    state.refillPerMs = rpm ? rpm / 60000 : 0;
+    state.tokens = state.capacity === Infinity ? Infinity : Math.min(state.tokens, state.capacity);
+    state.maxConcurrency = limit?.maxConcurrency || Infinity;
+
+    // Raised concurrency may free the waiting request
+    if (state.active < state.maxConcurrency) {
+      state.slotWaiters.shift()?.();
+    }
+  }
+}
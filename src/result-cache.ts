@@ -0,0 +1,300 @@
+/**
+ * Result Cache
+ *
+ * Opt-in cache of provider output, so an identical request is not paid for twice:
+ * - Keyed on a SHA-256 of the fully resolved request: prompt, system
+ *   instruction, template files, style reference and edit image bytes,
+ *   provider, model, size and seed
+ * - Stores the image as the provider returned it (before post-processing) in
+ *   {configDir}/cache/results, with a {key}.json entry beside it
+ * - Evicts entries older than maxAgeMs, then the least recently used ones
+ *   until the cache fits in maxSizeMb
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GlobalConfig, ImageGenerationRequest, ImageGenerationResult, ResultCacheConfig } from './types';
+import { Logger, defaultLogger } from './logger';
+
+const DEFAULT_MAX_SIZE_MB = 500;
+const DEFAULT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const KEY_PATTERN = /^[a-f0-9]{64}$/;
+
+interface CacheEntry {
+  key: string;
+  createdAt: string;
+  lastUsedAt: string;
+  extension: string;
+  size: number;
+  provider: string;
+  model?: string;
+  mimeType?: string;
+  seed?: number;
+}
+
+export class ResultCache {
+  private cacheDir: string;
+  private maxBytes: number;
+  private maxAgeMs: number;
+  private logger: Logger;
+
+  constructor(configDir: string, options: ResultCacheConfig = { enabled: true }, logger: Logger = defaultLogger()) {
+    this.cacheDir = path.join(configDir, 'cache', 'results');
+    this.maxBytes = (options.maxSizeMb ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+    this.logger = logger.child('ResultCache');
+  }
+
+  /**
+   * Cache key for a resolved request
+   * Template files are read from `templateDir`; unset provider and model fall back to the configured defaults
+   */
+  static key(request: ImageGenerationRequest, config: GlobalConfig, templateDir?: string): string {
+    const provider = ResultCache.keyProvider(request, config);
+    const hash = crypto.createHash('sha256');
+
+    hash.update(JSON.stringify({
+      prompt: request.prompt,
+      systemInstruction: request.systemInstruction,
+      template: request.template,
+      templateFiles: templateDir ? templateFileHashes(templateDir) : undefined,
+      styleReference: fileHash(request.styleGridPath),
+      mode: request.mode || 'generate',
+      sourceImage: fileHash(request.sourceImagePath),
+      mask: fileHash(request.maskPath),
+      provider,
+      model: request.model || config.providers.find(p => p.name === provider)?.model,
+      aspectRatio: request.aspectRatio,
+      resolution: request.resolution,
+      aspectFit: request.aspectFit,
+      seed: request.seed
+    }));
+
+    return hash.digest('hex');
+  }
+
+  /**
+   * The provider a request's key names (results from any other provider must not be stored under it)
+   */
+  static keyProvider(request: ImageGenerationRequest, config: GlobalConfig): string {
+    return request.provider || config.defaultProvider;
+  }
+
+  /**
+   * Whether a fresh entry exists for the key
+   */
+  has(key: string): boolean {
+    return this.readEntry(key) !== null;
+  }
+
+  /**
+   * Copy a cached image to `outputPath` (null on a miss)
+   */
+  restore(key: string, outputPath: string): ImageGenerationResult | null {
+    const entry = this.readEntry(key);
+    if (!entry) {
+      return null;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.copyFileSync(this.dataPath(entry), outputPath);
+      entry.lastUsedAt = new Date().toISOString();
+      fs.writeFileSync(this.entryPath(key), JSON.stringify(entry, null, 2), 'utf-8');
+    } catch (error) {
+      this.logger.warn(`Failed to restore cached result ${key.slice(0, 12)}`, error);
+      return null;
+    }
+
+    return {
+      success: true,
+      path: outputPath,
+      provider: entry.provider,
+      model: entry.model,
+      mimeType: entry.mimeType,
+      seed: entry.seed,
+      cost: 0,
+      cached: true
+    };
+  }
+
+  /**
+   * Store a successful provider result under the key, then evict
+   */
+  store(key: string, result: ImageGenerationResult): void {
+    if (!result.success || !result.path || !result.provider || !fs.existsSync(result.path)) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const entry: CacheEntry = {
+      key,
+      createdAt: now,
+      lastUsedAt: now,
+      extension: path.extname(result.path) || '.png',
+      size: fs.statSync(result.path).size,
+      provider: result.provider,
+      model: result.model,
+      mimeType: result.mimeType,
+      seed: result.seed
+    };
+
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+      this.remove(key);
+      fs.copyFileSync(result.path, this.dataPath(entry));
+      fs.writeFileSync(this.entryPath(key), JSON.stringify(entry, null, 2), 'utf-8');
+    } catch (error) {
+      this.logger.warn(`Failed to cache result ${key.slice(0, 12)}`, error);
+      return;
+    }
+
+    this.prune();
+  }
+
+  /**
+   * Evict expired entries, then least recently used ones until under the size limit
+   * Returns the number of entries removed
+   */
+  prune(): number {
+    const now = Date.now();
+    let removed = 0;
+    const kept: CacheEntry[] = [];
+
+    for (const entry of this.entries()) {
+      if (now - Date.parse(entry.createdAt) > this.maxAgeMs) {
+        this.remove(entry.key);
+        removed++;
+      } else {
+        kept.push(entry);
+      }
+    }
+
+    kept.sort((a, b) => Date.parse(a.lastUsedAt) - Date.parse(b.lastUsedAt));
+    let total = kept.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of kept) {
+      if (total <= this.maxBytes) {
+        break;
+      }
+      this.remove(entry.key);
+      total -= entry.size;
+      removed++;
+    }
+
+    if (removed > 0) {
+      this.logger.debug(`Evicted ${removed} cached results`);
+    }
+    return removed;
+  }
+
+  /**
+   * Remove every cached result
+   */
+  clear(): number {
+    const entries = this.entries();
+    for (const entry of entries) {
+      this.remove(entry.key);
+    }
+    return entries.length;
+  }
+
+  /**
+   * Entry count and total size in bytes
+   */
+  stats(): { entries: number; bytes: number } {
+    const entries = this.entries();
+    return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0) };
+  }
+
+  /**
+   * A fresh entry whose image is still present (expired or broken entries are removed)
+   */
+  private readEntry(key: string): CacheEntry | null {
+    if (!KEY_PATTERN.test(key) || !fs.existsSync(this.entryPath(key))) {
+      return null;
+    }
+
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(fs.readFileSync(this.entryPath(key), 'utf-8'));
+    } catch {
+      this.remove(key);
+      return null;
+    }
+
+    if (Date.now() - Date.parse(entry.createdAt) > this.maxAgeMs || !fs.existsSync(this.dataPath(entry))) {
+      this.remove(key);
+      return null;
+    }
+    return entry;
+  }
+
+  private entries(): CacheEntry[] {
+    if (!fs.existsSync(this.cacheDir)) {
+      return [];
+    }
+
+    const entries: CacheEntry[] = [];
+    for (const file of fs.readdirSync(this.cacheDir)) {
+      if (!file.endsWith('.json')) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(fs.readFileSync(path.join(this.cacheDir, file), 'utf-8')));
+      } catch {
+        this.logger.warn(`Malformed cache entry: ${file}`);
+      }
+    }
+    return entries;
+  }
+
+  private remove(key: string): void {
+    for (const file of fs.existsSync(this.cacheDir) ? fs.readdirSync(this.cacheDir) : []) {
+      if (file.startsWith(`${key}.`)) {
+        fs.rmSync(path.join(this.cacheDir, file), { force: true });
+      }
+    }
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.cacheDir, `${key}.json`);
+  }
+
+  private dataPath(entry: CacheEntry): string {
+    return path.join(this.cacheDir, `${entry.key}.data${entry.extension}`);
+  }
+}
+
+/**
+ * Hashes of the files that shape a template's prompts (style references are keyed separately)
+ */
+function templateFileHashes(templateDir: string): Record<string, string> {
+  const files = ['config.json', 'style-guide.json', 'domain-knowledge.txt'];
+  const promptsDir = path.join(templateDir, 'prompts');
+  if (fs.existsSync(promptsDir)) {
+    files.push(
+      ...fs.readdirSync(promptsDir)
+        .filter(file => file.endsWith('.txt'))
+        .sort()
+        .map(file => path.join('prompts', file))
+    );
+  }
+
+  const hashes: Record<string, string> = {};
+  for (const file of files) {
+    const hash = fileHash(path.join(templateDir, file));
+    if (hash) {
+      hashes[file] = hash;
+    }
+  }
+  return hashes;
+}
+
+function fileHash(filePath: string | undefined): string | undefined {
+  if (!filePath || !fs.existsSync(filePath)) {
+    return undefined;
+  }
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
@@ -0,0 +1,139 @@
+/**
+ * Result Store
+ *
+ * Snapshots every successful generation so it can be replayed exactly:
+ * - The resolved request (prompt, template version, domain knowledge,
+ *   provider, model and seed) in {configDir}/results/{id}.json
+ * - Input images (style reference, edit source and mask) copied by content
+ *   hash to {configDir}/results/files, so a regenerated style grid or an
+ *   edited source does not change what a replay sends
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  GenerationRecord,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  ReplayableRequest,
+  SnapshotInput
+} from './types';
+import { Logger, defaultLogger } from './logger';
+
+const SNAPSHOT_INPUTS: SnapshotInput[] = ['styleGridPath', 'sourceImagePath', 'maskPath'];
+
+const RESULT_ID_PATTERN = /^[a-z0-9-]+$/;
+
+export class ResultStore {
+  private resultsDir: string;
+  private filesDir: string;
+  private logger: Logger;
+
+  constructor(configDir: string, logger: Logger = defaultLogger()) {
+    this.resultsDir = path.join(configDir, 'results');
+    this.filesDir = path.join(this.resultsDir, 'files');
+    this.logger = logger.child('ResultStore');
+  }
+
+  /**
+   * Sortable result id (creation time + random suffix)
+   */
+  static newId(): string {
+    return `${Date.now().toString(36)}-${crypto.randomBytes(4).toString('hex')}`;
+  }
+
+  /**
+   * Snapshot a successful generation (null when it could not be saved)
+   * The stored request is pinned to the provider, model and seed that produced the image
+   */
+  save(
+    request: ImageGenerationRequest,
+    result: ImageGenerationResult,
+    templateVersion?: string
+  ): GenerationRecord | null {
+    if (!result.success || !result.path || !result.provider) {
+      return null;
+    }
+
+    // Runtime-only fields are not part of the resolved request
+    const { signal, timeoutMs, count, noCache, overwrite, ...resolved } = request;
+    const replayable: ReplayableRequest = {
+      ...resolved,
+      provider: result.provider,
+      model: result.model ?? request.model,
+      seed: result.seed ?? request.seed,
+      outputPath: result.path
+    };
+
+    try {
+      const inputs: GenerationRecord['inputs'] = {};
+      for (const field of SNAPSHOT_INPUTS) {
+        const original = replayable[field];
+        if (original && fs.existsSync(original)) {
+          inputs[field] = original;
+          replayable[field] = this.snapshotFile(original);
+        }
+      }
+
+      const record: GenerationRecord = {
+        id: ResultStore.newId(),
+        createdAt: new Date().toISOString(),
+        request: replayable,
+        templateVersion,
+        inputs,
+        outputPath: result.path,
+        provider: result.provider,
+        model: replayable.model,
+        seed: replayable.seed
+      };
+
+      fs.mkdirSync(this.resultsDir, { recursive: true });
+      fs.writeFileSync(this.recordPath(record.id), JSON.stringify(record, null, 2), 'utf-8');
+      return record;
+    } catch (error) {
+      this.logger.error('Failed to save result snapshot', error);
+      return null;
+    }
+  }
+
+  /**
+   * Load a snapshot by result id
+   */
+  load(id: string): GenerationRecord | null {
+    if (!RESULT_ID_PATTERN.test(id)) {
+      return null;
+    }
+
+    const recordPath = this.recordPath(id);
+    if (!fs.existsSync(recordPath)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(recordPath, 'utf-8'));
+    } catch {
+      this.logger.warn(`Malformed result snapshot: ${id}`);
+      return null;
+    }
+  }
+
+  private recordPath(id: string): string {
+    return path.join(this.resultsDir, `${id}.json`);
+  }
+
+  /**
+   * Copy an input file into the store (deduplicated by content hash)
+   */
+  private snapshotFile(filePath: string): string {
+    const data = fs.readFileSync(filePath);
+    const hash = crypto.createHash('sha256').update(data).digest('hex');
+    const stored = path.join(this.filesDir, `${hash}${path.extname(filePath).toLowerCase()}`);
+
+    if (!fs.existsSync(stored)) {
+      fs.mkdirSync(this.filesDir, { recursive: true });
+      fs.writeFileSync(stored, data);
+    }
+    return stored;
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * Self-Hosted Stable Diffusion Adapters
+ *
+ * Generate on our own GPU boxes:
+ * - Automatic1111Adapter: `POST /sdapi/v1/txt2img` (synchronous), or
+ *   `/sdapi/v1/img2img` for edits (inpainting when a mask is given)
+ * - ComfyUIAdapter: queue a workflow with `POST /prompt`, poll
+ *   `GET /history/{id}` until done, then download via `GET /view`
+ *
+ * ComfyUI workflows are JSON templates (API format) with placeholders:
+ * {{prompt}}, {{negative_prompt}}, {{seed}}, {{width}}, {{height}}, {{steps}}, {{model}}
+ *
+ * A request's aspect ratio / resolution sets width and height (multiples of 64);
+ * otherwise the provider's configured size is used.
+ */
+
+import * as fs from 'fs';
+import {
+  ProviderAdapter,
+  ProviderConfig,
+  ProviderResponse,
+  ImageGenerationRequest
+} from './types';
+import { getJson, imageDimensions, postJson, resolveBaseUrl, sleep, sniffMimeType } from './provider-adapter';
+import { ProviderError, httpError } from './provider-errors';
+import { dimensionsFor } from './image-processing';
+import { Logger, defaultLogger } from './logger';
+
+const DEFAULT_SIZE = 1024;
+const DEFAULT_STEPS = 30;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 300000; // 5 minutes
+const DEFAULT_DENOISING_STRENGTH = 0.6;
+
+interface Txt2ImgResponse {
+  images?: string[];
+  info?: string;
+}
+
+interface ComfyHistoryEntry {
+  status?: { status_str?: string; completed?: boolean; messages?: unknown[] };
+  outputs?: Record<string, { images?: Array<{ filename: string; subfolder?: string; type?: string }> }>;
+}
+
+/**
+ * Settings shared by both backends (a random seed unless the request sets one;
+ * size from the request's aspect ratio / resolution, else the provider config)
+ */
+function resolveSettings(provider: ProviderConfig, request: ImageGenerationRequest): {
+  width: number;
+  height: number;
+  steps: number;
+  seed: number;
+  negativePrompt: string;
+} {
+  const size = request.aspectRatio || request.resolution
+    ? dimensionsFor(request.aspectRatio, request.resolution, Math.max(provider.width || DEFAULT_SIZE, provider.height || DEFAULT_SIZE))
+    : { width: provider.width || DEFAULT_SIZE, height: provider.height || DEFAULT_SIZE };
+
+  return {
+    width: size.width,
+    height: size.height,
+    steps: provider.steps || DEFAULT_STEPS,
+    seed: request.seed ?? Math.floor(Math.random() * 2 ** 32),
+    negativePrompt: provider.negativePrompt || ''
+  };
+}
+
+function requireBaseUrl(provider: ProviderConfig): string {
+  if (!provider.baseUrl) {
+    throw new ProviderError('baseUrl not configured', 'invalid-request');
+  }
+  return resolveBaseUrl(provider, provider.baseUrl);
+}
+
+export class Automatic1111Adapter implements ProviderAdapter {
+  readonly name = 'automatic1111';
+
+  async generate(provider: ProviderConfig, request: ImageGenerationRequest): Promise<ProviderResponse> {
+    const baseUrl = requireBaseUrl(provider);
+    const settings = resolveSettings(provider, request);
+
+    const body: Record<string, unknown> = {
+      prompt: request.prompt,
+      negative_prompt: settings.negativePrompt,
+      seed: settings.seed,
+      width: settings.width,
+      height: settings.height,
+      steps: settings.steps
+    };
+
+    if (provider.model) {
+      body.override_settings = { sd_model_checkpoint: provider.model };
+    }
+
+    const isEdit = request.mode === 'edit' && !!request.sourceImagePath;
+    if (isEdit) {
+      this.addEditFields(body, provider, request);
+    }
+
+    const response = await postJson<Txt2ImgResponse>(
+      `${baseUrl}/sdapi/v1/${isEdit ? 'img2img' : 'txt2img'}`,
+      body,
+      provider.headers,
+      request.signal
+    );
+    const image = response.images?.[0];
+
+    if (!image) {
+      throw new ProviderError('No image data in response', 'unknown');
+    }
+
+    const data = Buffer.from(image, 'base64');
+    return {
+      data,
+      mimeType: sniffMimeType(data),
+      model: provider.model || 'automatic1111',
+      seed: settings.seed
+    };
+  }
+
+  /**
+   * img2img fields: source image, optional inpainting mask, and the source's size
+   * (rounded to multiples of 64) unless the request sets a ratio or resolution
+   */
+  private addEditFields(body: Record<string, unknown>, provider: ProviderConfig, request: ImageGenerationRequest): void {
+    const source = fs.readFileSync(request.sourceImagePath!);
+    body.init_images = [source.toString('base64')];
+    body.denoising_strength = provider.denoisingStrength ?? DEFAULT_DENOISING_STRENGTH;
+
+    if (request.maskPath) {
+      body.mask = fs.readFileSync(request.maskPath).toString('base64');
+      body.inpainting_fill = 1; // start from the original pixels
+    }
+
+    const size = imageDimensions(source);
+    if (size && !request.aspectRatio && !request.resolution) {
+      body.width = Math.max(64, Math.round(size.width / 64) * 64);
+      body.height = Math.max(64, Math.round(size.height / 64) * 64);
+    }
+  }
+
+  /**
+   * Health probe: list installed checkpoints
+   */
+  async probe(provider: ProviderConfig, signal?: AbortSignal): Promise<void> {
+    await getJson(`${requireBaseUrl(provider)}/sdapi/v1/sd-models`, provider.headers, signal);
+  }
+}
+
+export class ComfyUIAdapter implements ProviderAdapter {
+  readonly name = 'comfyui';
+  private logger: Logger;
+
+  constructor(logger: Logger = defaultLogger()) {
+    this.logger = logger.child('ComfyUI');
+  }
+
+  async generate(provider: ProviderConfig, request: ImageGenerationRequest): Promise<ProviderResponse> {
+    const baseUrl = requireBaseUrl(provider);
+    const settings = resolveSettings(provider, request);
+
+    const workflow = this.renderWorkflow(provider, {
+      prompt: request.prompt,
+      negative_prompt: settings.negativePrompt,
+      seed: settings.seed,
+      width: settings.width,
+      height: settings.height,
+      steps: settings.steps,
+      model: provider.model || ''
+    });
+
+    const queued = await postJson<{ prompt_id?: string; error?: unknown }>(
+      `${baseUrl}/prompt`,
+      { prompt: workflow, client_id: 'create-image' },
+      provider.headers,
+      request.signal
+    );
+
+    if (!queued.prompt_id) {
+      throw new ProviderError(`Workflow rejected: ${JSON.stringify(queued.error || queued)}`, 'invalid-request');
+    }
+
+    let entry: ComfyHistoryEntry;
+    try {
+      entry = await this.waitForCompletion(baseUrl, queued.prompt_id, provider, request.signal);
+    } catch (error) {
+      if (request.signal?.aborted) {
+        await this.dequeue(baseUrl, queued.prompt_id, provider);
+      }
+      throw error;
+    }
+
+    const image = Object.values(entry.outputs || {}).flatMap(output => output.images || [])[0];
+
+    if (!image) {
+      throw new ProviderError('Workflow finished without an image output', 'unknown');
+    }
+
+    const query = new URLSearchParams({
+      filename: image.filename,
+      subfolder: image.subfolder || '',
+      type: image.type || 'output'
+    });
+    const response = await fetch(`${baseUrl}/view?${query}`, { headers: provider.headers, signal: request.signal });
+
+    if (!response.ok) {
+      throw await httpError(response);
+    }
+
+    const data = Buffer.from(await response.arrayBuffer());
+    return {
+      data,
+      mimeType: sniffMimeType(data),
+      model: provider.model || 'comfyui',
+      seed: settings.seed
+    };
+  }
+
+  /**
+   * Health probe: server system stats
+   */
+  async probe(provider: ProviderConfig, signal?: AbortSignal): Promise<void> {
+    await getJson(`${requireBaseUrl(provider)}/system_stats`, provider.headers, signal);
+  }
+
+  /**
+   * Load the workflow template and fill in placeholders
+   * A quoted placeholder ("{{seed}}") is replaced by the JSON value, so numbers stay numbers;
+   * placeholders embedded in longer strings are replaced by escaped text.
+   */
+  private renderWorkflow(provider: ProviderConfig, values: Record<string, string | number>): unknown {
+    if (!provider.workflowPath || !fs.existsSync(provider.workflowPath)) {
+      throw new ProviderError(`Workflow template not found: ${provider.workflowPath}`, 'invalid-request');
+    }
+
+    let template = fs.readFileSync(provider.workflowPath, 'utf-8');
+
+    for (const [key, value] of Object.entries(values)) {
+      template = template
+        .split(`"{{${key}}}"`).join(JSON.stringify(value))
+        .split(`{{${key}}}`).join(JSON.stringify(String(value)).slice(1, -1));
+    }
+
+    try {
+      return JSON.parse(template);
+    } catch (error) {
+      throw new ProviderError(`Invalid workflow JSON in ${provider.workflowPath}: ${error}`, 'invalid-request');
+    }
+  }
+
+  /**
+   * Poll the history endpoint until the prompt completes, fails or times out
+   */
+  private async waitForCompletion(
+    baseUrl: string,
+    promptId: string,
+    provider: ProviderConfig,
+    signal?: AbortSignal
+  ): Promise<ComfyHistoryEntry> {
+    const deadline = Date.now() + (provider.timeoutMs || DEFAULT_TIMEOUT_MS);
+    const interval = provider.pollIntervalMs || DEFAULT_POLL_INTERVAL_MS;
+
+    while (Date.now() < deadline) {
+      const history = await getJson<Record<string, ComfyHistoryEntry>>(
+        `${baseUrl}/history/${promptId}`,
+        provider.headers,
+        signal
+      );
+      const entry = history[promptId];
+
+      if (entry?.status?.status_str === 'error') {
+        throw new ProviderError(`Workflow failed: ${JSON.stringify(entry.status.messages || [])}`, 'transient');
+      }
+
+      if (entry && (entry.status?.completed || entry.outputs && Object.keys(entry.outputs).length > 0)) {
+        return entry;
+      }
+
+      await sleep(interval, signal);
+    }
+
+    throw new ProviderError(`Workflow ${promptId} did not finish within ${provider.timeoutMs || DEFAULT_TIMEOUT_MS}ms`, 'timeout');
+  }
+
+  /**
+   * Remove a cancelled prompt from the server queue (best effort; a running prompt finishes)
+   */
+  private async dequeue(baseUrl: string, promptId: string, provider: ProviderConfig): Promise<void> {
+    try {
+      await fetch(`${baseUrl}/queue`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...provider.headers },
+        body: JSON.stringify({ delete: [promptId] })
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to remove cancelled prompt ${promptId}`, error);
+    }
+  }
+}
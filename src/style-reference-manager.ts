@@ -5,6 +5,7 @@
  * - List style references for a template
  * - Set active style reference
  * - Generate new style references with Nano Banana Pro
+ * - Record each generation in the history store
  *
  * Mirrors the web UI functionality at /illustrations
  */
@@ -18,6 +19,10 @@ import {
   GenerationResult,
   Resolution
 } from './nano-banana-generator';
+import { ProgressEmitter } from './progress-events';
+import { Logger, defaultLogger } from './logger';
+import { ManifestSigner } from './manifest-signer';
+import { HistoryStore } from './history-store';
 
 export interface StyleReferenceInfo {
   name: string;
@@ -34,13 +39,43 @@ export interface GenerateReferenceOptions {
   audience?: string;
   visualStyle?: string;
   refImages?: string[];
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  events?: ProgressEmitter;
+}
+
+export interface GeneratedReference {
+  success: boolean;
+  path?: string;
+  individualPaths?: string[];
+  gridSizeKB?: number;
+  manifestPath?: string;
+  error?: string;
+  cancelled?: boolean;
+  timedOut?: boolean;
 }
 
 export class StyleReferenceManager {
   private templatesDir: string;
-
-  constructor(repositoryPath: string) {
+  private events?: ProgressEmitter;
+  private rootLogger: Logger;
+  private logger: Logger;
+  private signer?: ManifestSigner;
+  private history?: HistoryStore;
+
+  constructor(
+    repositoryPath: string,
+    events?: ProgressEmitter,
+    logger: Logger = defaultLogger(),
+    signer?: ManifestSigner,
+    history?: HistoryStore
+  ) {
     this.templatesDir = path.join(repositoryPath, 'templates');
+    this.events = events;
+    this.rootLogger = logger;
+    this.logger = logger.child('StyleReferenceManager');
+    this.signer = signer;
+    this.history = history;
   }
 
   /**
@@ -149,7 +184,34 @@ export class StyleReferenceManager {
   async generateStyleReference(
     templateName: string,
     options: GenerateReferenceOptions
-  ): Promise<{ success: boolean; path?: string; individualPaths?: string[]; gridSizeKB?: number; error?: string }> {
+  ): Promise<GeneratedReference> {
+    const startedAt = Date.now();
+    const result = await this.generateGrid(templateName, options);
+
+    if (this.history) {
+      const { signal, events, ...request } = options;
+      this.history.record({
+        kind: 'style-reference',
+        success: result.success,
+        request: { template: templateName, ...request },
+        prompt: options.description || options.name,
+        template: templateName,
+        provider: 'gemini',
+        durationMs: Date.now() - startedAt,
+        path: result.path,
+        error: result.error,
+        cancelled: result.cancelled,
+        timedOut: result.timedOut,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Generate the grid, save it under style-references and make it active
+   */
+  private async generateGrid(templateName: string, options: GenerateReferenceOptions): Promise<GeneratedReference> {
     // Check if generation is available
     const availability = isGenerationAvailable();
     if (!availability.available) {
@@ -188,12 +250,27 @@ export class StyleReferenceManager {
       visualStyle: options.visualStyle,
       referenceImageBase64,
       domainKnowledge,
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      events: options.events || this.events,
+      logger: this.rootLogger,
+      manifest: this.signer
+        ? {
+          signer: this.signer,
+          details: {
+            template: { name: templateName, dir: templateDir },
+            domainKnowledgePath,
+            referenceImagePaths: options.refImages?.slice(0, 1),
+          },
+        }
+        : undefined,
     };
 
-    console.log(`[StyleReferenceManager] Generating style reference with Nano Banana Pro`);
-    console.log(`  Template: ${templateName}`);
-    console.log(`  Name: ${options.name}`);
-    console.log(`  Audience: ${options.audience || 'competitive'}`);
+    this.logger.info('Generating style reference with Nano Banana Pro', {
+      template: templateName,
+      name: options.name,
+      audience: options.audience || 'competitive',
+    });
 
     const result: GenerationResult = await generateStyleReferenceGrid(
       refsDir,
@@ -210,12 +287,15 @@ export class StyleReferenceManager {
         path: result.gridPath,
         individualPaths: result.individualPaths,
         gridSizeKB: result.gridSizeKB,
+        manifestPath: result.manifestPath,
       };
     }
 
     return {
       success: false,
       error: result.errors?.join('; ') || 'Generation failed',
+      cancelled: result.cancelled,
+      timedOut: result.timedOut,
     };
   }
 
@@ -17,6 +17,7 @@ import {
   TemplateCache,
   GlobalConfig
 } from './types';
+import { Logger, defaultLogger } from './logger';
 
 export class TemplateLoader {
   private repositoryPath: string;
@@ -25,13 +26,15 @@ export class TemplateLoader {
   private cache: TemplateCache;
   private registry?: TemplateRegistry;
   private cacheTTL: number;
+  private logger: Logger;
 
-  constructor(repositoryPath: string, cacheTTL: number = 3600000) {
+  constructor(repositoryPath: string, cacheTTL: number = 3600000, logger: Logger = defaultLogger()) {
     this.repositoryPath = repositoryPath;
     this.templatesDir = path.join(repositoryPath, 'templates');
     this.registryPath = path.join(this.templatesDir, 'registry.json');
     this.cache = {};
     this.cacheTTL = cacheTTL;
+    this.logger = logger.child('TemplateLoader');
   }
 
   /**
@@ -41,7 +44,7 @@ export class TemplateLoader {
     // Check cache first
     const cached = this.cache[templateName];
     if (cached && Date.now() - cached.loadedAt < this.cacheTTL) {
-      console.log(`[TemplateLoader] Cache hit: ${templateName}`);
+      this.logger.debug(`Cache hit: ${templateName}`);
       return cached.template;
     }
 
@@ -67,7 +70,7 @@ export class TemplateLoader {
     const templateDir = path.join(this.templatesDir, templateName);
 
     if (!fs.existsSync(templateDir)) {
-      console.warn(`[TemplateLoader] Template not found: ${templateName}`);
+      this.logger.warn(`Template not found: ${templateName}`);
       return null;
     }
 
@@ -128,10 +131,10 @@ export class TemplateLoader {
         styleGuide
       };
 
-      console.log(`[TemplateLoader] Loaded: ${templateName}`);
+      this.logger.info(`Loaded: ${templateName}`);
       return template;
     } catch (error) {
-      console.error(`[TemplateLoader] Error loading ${templateName}:`, error);
+      this.logger.error(`Error loading ${templateName}`, error);
       return null;
     }
   }
@@ -151,7 +154,7 @@ export class TemplateLoader {
         this.registry = loaded;
         return this.registry;
       } catch (error) {
-        console.warn('[TemplateLoader] Failed to load registry, rebuilding...');
+        this.logger.warn('Failed to load registry, rebuilding...');
       }
     }
 
@@ -195,7 +198,7 @@ export class TemplateLoader {
         const configPath = path.join(templateDir, 'config.json');
 
         if (!fs.existsSync(configPath)) {
-          console.warn(`[TemplateLoader] No config.json in ${topic}/${style}, skipping`);
+          this.logger.warn(`No config.json in ${topic}/${style}, skipping`);
           continue;
         }
 
@@ -213,7 +216,7 @@ export class TemplateLoader {
             supportedTypes: config.supported_types || []
           });
         } catch (error) {
-          console.error(`[TemplateLoader] Error reading ${topic}/${style}:`, error);
+          this.logger.error(`Error reading ${topic}/${style}`, error);
         }
       }
     }
@@ -231,9 +234,9 @@ export class TemplateLoader {
   private saveRegistry(registry: TemplateRegistry): void {
     try {
       fs.writeFileSync(this.registryPath, JSON.stringify(registry, null, 2), 'utf-8');
-      console.log(`[TemplateLoader] Registry saved: ${registry.templates.length} templates`);
+      this.logger.info(`Registry saved: ${registry.templates.length} templates`);
     } catch (error) {
-      console.error('[TemplateLoader] Failed to save registry:', error);
+      this.logger.error('Failed to save registry', error);
     }
   }
 
@@ -290,7 +293,7 @@ export class TemplateLoader {
    */
   clearCache(): void {
     this.cache = {};
-    console.log('[TemplateLoader] Cache cleared');
+    this.logger.info('Cache cleared');
   }
 
   /**
@@ -2,14 +2,18 @@
  * Core type definitions for create-image plugin
  */
 
+import type { Logger } from './logger';
+
 export interface PluginContext {
   configDir: string;
   repositoryPath: string;
   cwd: string;
+  logger?: Logger;
 }
 
 export interface ImageGenerationRequest {
   prompt: string;
+  userPrompt?: string;
   template?: string;
   topic?: string;
   style?: string;
@@ -18,8 +22,45 @@ export interface ImageGenerationRequest {
   provider?: string;
   model?: string;
   styleGridPath?: string;
+  systemInstruction?: string;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  count?: number;
+  seed?: number;
+  aspectRatio?: string;
+  resolution?: ImageResolution;
+  aspectFit?: AspectFit;
+  mode?: GenerationMode;
+  sourceImagePath?: string;
+  maskPath?: string;
+  dryRun?: boolean;
+  postProcess?: PostProcessStep[];
+  outputPattern?: string;
+  noCache?: boolean;
+  overwrite?: boolean;
 }
 
+export type GenerationMode = 'generate' | 'edit';
+
+export type ImageResolution = '1K' | '2K' | '4K';
+
+export type AspectFit = 'crop' | 'pad';
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export type PostProcessStep =
+  | {
+      op: 'resize';
+      width?: number;
+      height?: number;
+      fit?: 'inside' | 'cover' | 'contain' | 'fill' | 'outside';
+      background?: string;
+    }
+  | { op: 'format'; format: ImageFormat; quality?: number }
+  | { op: 'flatten'; background?: string }
+  | { op: 'trim'; threshold?: number }
+  | { op: 'sharpen'; sigma?: number };
+
 export interface ImageGenerationResult {
   success: boolean;
   path?: string;
@@ -27,18 +68,219 @@ export interface ImageGenerationResult {
   sizeKB?: string;
   provider?: string;
   model?: string;
+  mimeType?: string;
+  format?: ImageFormat;
+  width?: number;
+  height?: number;
+  postProcessError?: string;
+  manifestPath?: string;
+  usage?: ProviderUsage;
+  cost?: number;
   error?: string;
+  errorClass?: ProviderErrorClass;
   fallbackUsed?: boolean;
+  attempts?: GenerationAttempt[];
+  cancelled?: boolean;
+  timedOut?: boolean;
+  seed?: number;
+  variants?: ImageGenerationResult[];
+  contactSheetPath?: string;
+  id?: string;
+  replayOf?: string;
+  cached?: boolean;
+  dryRun?: boolean;
+  plan?: GenerationPlan;
+}
+
+export type ProviderErrorClass =
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'invalid-request'
+  | 'timeout'
+  | 'transient'
+  | 'unknown';
+
+export type FallbackPolicy = Partial<Record<ProviderErrorClass, boolean>>;
+
+export interface GenerationAttempt {
+  provider: string;
+  model?: string;
+  success: boolean;
+  errorClass?: ProviderErrorClass;
+  error?: string;
+  durationMs: number;
+}
+
+export interface ImageProvenance {
+  generator: string;
+  prompt: string;
+  userPrompt?: string;
+  template?: string;
+  templateVersion?: string;
+  styleReference?: string;
+  provider: string;
+  model?: string;
+  seed?: number;
+  createdAt: string;
+  resultId?: string;
+  replayOf?: string;
+}
+
+export interface ManifestFile {
+  path: string;
+  sha256: string;
+  size: number;
+}
+
+export interface AssetManifest {
+  version: 1;
+  kind: 'image' | 'style-reference';
+  generator: string;
+  createdAt: string;
+  asset: ManifestFile;
+  provider?: string;
+  model?: string;
+  seed?: number;
+  resultId?: string;
+  template?: {
+    name: string;
+    version?: string;
+    dir: string;
+    files: ManifestFile[];
+  };
+  domainKnowledge?: ManifestFile;
+  styleReference?: ManifestFile;
+  referenceImages?: ManifestFile[];
+  signature: {
+    algorithm: 'ed25519';
+    keyId: string;
+    publicKey: string;
+    value: string;
+  };
+}
+
+export interface ManifestVerification {
+  valid: boolean;
+  assetPath: string;
+  manifestPath: string;
+  signatureValid: boolean;
+  assetIntact: boolean;
+  trustedKey: boolean;
+  keyId?: string;
+  changedInputs: string[];
+  errors: string[];
+}
+
+export interface PlannedProvider {
+  provider: string;
+  role: 'primary' | 'fallback';
+  adapter: 'native' | 'legacy-cli';
+  model?: string;
+  health: ProviderHealth;
+  estimatedCost?: number;
+}
+
+export interface SkippedProvider {
+  provider: string;
+  reason: string;
+}
+
+export interface FallbackPlan {
+  chain: PlannedProvider[];
+  skipped: SkippedProvider[];
+  autoFallback: boolean;
+  expectedProvider?: string;
+  error?: string;
+  errorClass?: ProviderErrorClass;
+}
+
+export interface GenerationPlan extends FallbackPlan {
+  prompt: string;
+  userPrompt?: string;
+  systemInstruction?: string;
+  styleGridPath?: string;
+  template?: string;
+  templateVersion?: string;
+  type?: string;
+  mode: GenerationMode;
+  sourceImagePath?: string;
+  maskPath?: string;
+  size: {
+    aspectRatio?: string;
+    resolution?: ImageResolution;
+    aspectFit?: AspectFit;
+    width?: number;
+    height?: number;
+  };
+  seed?: number;
+  count: number;
+  outputPath: string;
+  postProcess?: PostProcessStep[];
+  estimatedCost?: number;
+  cached?: boolean;
 }
 
 export interface ProviderConfig {
   name: string;
+  type?: string;
   apiKey?: string;
   model?: string;
   project?: string;
   location?: string;
   priority: number;
   enabled: boolean;
+  adapter?: 'native' | 'legacy-cli';
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  responseFormat?: 'b64_json' | 'url';
+  workflowPath?: string;
+  width?: number;
+  height?: number;
+  steps?: number;
+  negativePrompt?: string;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+  latencyMs?: number;
+  simulateError?: ProviderErrorClass;
+  simulateErrorCount?: number;
+  denoisingStrength?: number;
+}
+
+export interface ProviderUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+export interface ProviderResponse {
+  data: Buffer;
+  mimeType: string;
+  model: string;
+  usage?: ProviderUsage;
+  seed?: number;
+}
+
+export interface ProviderAdapter {
+  readonly name: string;
+  generate(provider: ProviderConfig, request: ImageGenerationRequest): Promise<ProviderResponse>;
+  probe?(provider: ProviderConfig, signal?: AbortSignal): Promise<void>;
+}
+
+export interface ProviderCapabilities {
+  aspectRatios?: string[];
+  editing: boolean;
+  maxPromptLength?: number;
+  seeds?: boolean;
+}
+
+export interface ProviderRegistration {
+  name: string;
+  capabilities: ProviderCapabilities;
+  createAdapter(logger?: Logger): ProviderAdapter;
+  discoverFromEnv?(env: NodeJS.ProcessEnv): ProviderConfig | null;
+  validateCredentials?(provider: ProviderConfig): string | null;
+  legacyEnv?(provider: ProviderConfig, env: NodeJS.ProcessEnv): Record<string, string>;
 }
 
 export interface Template {
@@ -50,21 +292,149 @@ export interface Template {
   styleGuide: any;
 }
 
+export type PromptSection = 'type_prompt' | 'prompt' | 'style_guide';
+
+export interface ComposedPrompt {
+  prompt: string;
+  systemInstruction?: string;
+  sections: PromptSection[];
+  unresolved: string[];
+}
+
 export interface GlobalConfig {
   repositoryPath: string;
   defaultProvider: string;
   providers: ProviderConfig[];
   defaultTemplate?: string;
   autoFallback: boolean;
+  fallbackPolicy?: FallbackPolicy;
   cacheEnabled?: boolean;
   cacheTTL?: number;
+  healthProbes?: boolean;
+  probeTimeoutMs?: number;
+  circuitBreaker?: CircuitBreakerConfig;
+  pricing?: PriceEntry[];
+  budgets?: BudgetConfig[];
+  onBudgetExhausted?: 'skip' | 'refuse';
+  rateLimits?: RateLimitConfig[];
+  embedProvenance?: boolean;
+  signManifests?: boolean;
+  outputDir?: string;
+  outputPattern?: string;
+  resultCache?: ResultCacheConfig;
 }
 
+export interface ResultCacheConfig {
+  enabled: boolean;
+  maxSizeMb?: number;
+  maxAgeMs?: number;
+}
+
+export interface RateLimitConfig {
+  provider: string;
+  requestsPerMinute?: number;
+  burst?: number;
+  maxConcurrency?: number;
+}
+
+export interface PriceEntry {
+  provider: string;
+  model?: string;
+  resolution?: string;
+  costPerImage?: number;
+  inputCostPerMillion?: number;
+  outputCostPerMillion?: number;
+}
+
+export interface BudgetConfig {
+  provider: string;
+  period: 'daily' | 'monthly';
+  limit: number;
+}
+
+export interface UsageRecord {
+  timestamp: string;
+  provider: string;
+  model: string;
+  template?: string;
+  resolution: string;
+  width?: number;
+  height?: number;
+  usage?: ProviderUsage;
+  cost: number;
+}
+
+export type HistoryKind = 'image' | 'variants' | 'replay' | 'style-reference';
+
+export interface HistoryEntry {
+  id: string;
+  timestamp: string;
+  kind: HistoryKind;
+  success: boolean;
+  // The request as given (without its abort signal)
+  request: Record<string, unknown>;
+  prompt?: string;
+  userPrompt?: string;
+  template?: string;
+  provider?: string;
+  model?: string;
+  seed?: number;
+  durationMs: number;
+  path?: string;
+  sha256?: string;
+  size?: number;
+  variantPaths?: string[];
+  resultId?: string;
+  replayOf?: string;
+  cached?: boolean;
+  cost?: number;
+  error?: string;
+  errorClass?: ProviderErrorClass;
+  cancelled?: boolean;
+  timedOut?: boolean;
+}
+
+export interface HistoryQuery {
+  template?: string;
+  provider?: string;
+  kind?: HistoryKind;
+  since?: Date;
+  until?: Date;
+  text?: string;
+  success?: boolean;
+  limit?: number;
+}
+
+export interface CostBreakdown {
+  count: number;
+  cost: number;
+}
+
+export interface CostReport {
+  since?: string;
+  until?: string;
+  totalCount: number;
+  totalCost: number;
+  byProvider: Record<string, CostBreakdown>;
+  byTemplate: Record<string, CostBreakdown>;
+}
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
 export interface ProviderHealth {
   provider: string;
   healthy: boolean;
   lastChecked: number;
+  latencyMs?: number;
+  circuit?: CircuitState;
+  consecutiveFailures?: number;
   error?: string;
+  errorClass?: ProviderErrorClass;
 }
 
 export interface ProviderFallbackChain {
@@ -95,3 +465,73 @@ export interface TemplateCache {
     loadedAt: number;
   };
 }
+
+export interface BatchRow {
+  prompt: string;
+  template?: string;
+  type?: string;
+  outputPath?: string;
+  provider?: string;
+  model?: string;
+  aspectRatio?: string;
+  resolution?: ImageResolution;
+}
+
+export interface BatchOptions {
+  concurrency?: number;
+  skipExisting?: boolean;
+  reportPath?: string;
+  signal?: AbortSignal;
+}
+
+export type BatchRowStatus = 'generated' | 'skipped' | 'failed' | 'cancelled';
+
+export interface BatchRowResult {
+  row: number;
+  prompt: string;
+  outputPath: string;
+  status: BatchRowStatus;
+  path?: string;
+  provider?: string;
+  resultId?: string;
+  size?: number;
+  sizeKB?: string;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface BatchReport {
+  manifestPath: string;
+  reportPath: string;
+  startedAt: string;
+  finishedAt: string;
+  total: number;
+  generated: number;
+  skipped: number;
+  failed: number;
+  cancelled: number;
+  rows: BatchRowResult[];
+}
+
+export type ReplayableRequest = Omit<ImageGenerationRequest, 'signal' | 'timeoutMs' | 'count' | 'overwrite'>;
+
+export type SnapshotInput = 'styleGridPath' | 'sourceImagePath' | 'maskPath';
+
+export interface GenerationRecord {
+  id: string;
+  createdAt: string;
+  request: ReplayableRequest;
+  templateVersion?: string;
+  inputs: Partial<Record<SnapshotInput, string>>;
+  outputPath: string;
+  provider: string;
+  model?: string;
+  seed?: number;
+}
+
+export interface ReplayOptions {
+  outputPath?: string;
+  seed?: number;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
@@ -0,0 +1,293 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { GeminiAdapter } = require('../dist/gemini-adapter');
+const { OpenRouterAdapter } = require('../dist/openrouter-adapter');
+const { OpenAICompatibleAdapter } = require('../dist/openai-compatible-adapter');
+const { Automatic1111Adapter, ComfyUIAdapter } = require('../dist/stable-diffusion-adapter');
+const { LegacyCliAdapter } = require('../dist/legacy-cli-adapter');
+const { ProviderError, classifyStatus } = require('../dist/provider-errors');
+const { PNG, sendJson, silentLogger, startServer, tempDir } = require('./helpers');
+
+const B64 = PNG.toString('base64');
+
+function provider(name, server, extra = {}) {
+  return { name, priority: 1, enabled: true, baseUrl: server.url, ...extra };
+}
+
+test('Gemini sends the key as a header and returns inline image data', async t => {
+  const server = await startServer((req, body, res) => sendJson(res, 200, {
+    candidates: [{ content: { parts: [{ inlineData: { mimeType: 'image/png', data: B64 } }] } }],
+    usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 1290, totalTokenCount: 1302 },
+    modelVersion: 'gemini-test'
+  }));
+  t.after(() => server.close());
+
+  const response = await new GeminiAdapter().generate(
+    provider('gemini', server, { apiKey: 'secret-key', model: 'gemini-test' }),
+    { prompt: 'a court', systemInstruction: 'be accurate', seed: 7, aspectRatio: '16:9', resolution: '2K' }
+  );
+
+  assert.ok(response.data.equals(PNG));
+  assert.equal(response.mimeType, 'image/png');
+  assert.equal(response.model, 'gemini-test');
+  assert.deepEqual(response.usage, { inputTokens: 12, outputTokens: 1290, totalTokens: 1302 });
+
+  const [request] = server.requests;
+  assert.equal(request.url, '/models/gemini-test:generateContent');
+  assert.equal(request.headers['x-goog-api-key'], 'secret-key');
+  assert.ok(!request.url.includes('secret-key'));
+  const body = JSON.parse(request.body);
+  assert.equal(body.contents[0].parts.at(-1).text, 'a court');
+  assert.equal(body.systemInstruction.parts[0].text, 'be accurate');
+  assert.deepEqual(body.generationConfig.imageConfig, { aspectRatio: '16:9', imageSize: '2K' });
+  assert.equal(body.generationConfig.seed, 7);
+});
+
+test('Gemini classifies safety blocks and HTTP errors', async t => {
+  let status = 200;
+  const server = await startServer((req, body, res) => status === 200
+    ? sendJson(res, 200, { candidates: [{ finishReason: 'IMAGE_SAFETY' }] })
+    : sendJson(res, status, { error: { message: 'slow down' } }));
+  t.after(() => server.close());
+
+  const adapter = new GeminiAdapter();
+  const config = provider('gemini', server, { apiKey: 'k' });
+
+  await assert.rejects(adapter.generate(config, { prompt: 'x' }), error =>
+    error instanceof ProviderError && error.errorClass === 'safety');
+
+  status = 429;
+  await assert.rejects(adapter.generate(config, { prompt: 'x' }), error =>
+    error instanceof ProviderError && error.errorClass === 'quota' && error.status === 429);
+
+  status = 401;
+  await assert.rejects(adapter.probe(config), error => error.errorClass === 'auth');
+});
+
+test('HTTP status classification checks auth and quota before the safety wording', () => {
+  assert.equal(classifyStatus(403, 'Request blocked: API key not valid'), 'auth');
+  assert.equal(classifyStatus(429, 'Requests blocked until the quota resets'), 'quota');
+  assert.equal(classifyStatus(400, 'Prompt blocked by the content policy'), 'safety');
+  assert.equal(classifyStatus(422, 'Output was blocked'), 'safety');
+  assert.equal(classifyStatus(500, 'upstream blocked'), 'transient');
+  assert.equal(classifyStatus(400, 'missing prompt'), 'invalid-request');
+});
+
+test('OpenRouter decodes the data URL image from chat completions', async t => {
+  const server = await startServer((req, body, res) => sendJson(res, 200, {
+    model: 'google/test-image',
+    choices: [{ message: { content: null, images: [{ image_url: { url: `data:image/png;base64,${B64}` } }] } }],
+    usage: { prompt_tokens: 5, completion_tokens: 10, total_tokens: 15 }
+  }));
+  t.after(() => server.close());
+
+  const response = await new OpenRouterAdapter().generate(
+    provider('openrouter', server, { apiKey: 'or-key' }),
+    { prompt: 'a paddle', systemInstruction: 'rules', seed: 3 }
+  );
+
+  assert.ok(response.data.equals(PNG));
+  assert.equal(response.model, 'google/test-image');
+  assert.equal(response.usage.totalTokens, 15);
+
+  const [request] = server.requests;
+  assert.equal(request.url, '/chat/completions');
+  assert.equal(request.headers.authorization, 'Bearer or-key');
+  const body = JSON.parse(request.body);
+  assert.deepEqual(body.messages[0], { role: 'system', content: 'rules' });
+  assert.equal(body.seed, 3);
+});
+
+test('OpenRouter reports text-only answers as missing image data', async t => {
+  const server = await startServer((req, body, res) => sendJson(res, 200, {
+    choices: [{ message: { content: 'I cannot draw that' } }]
+  }));
+  t.after(() => server.close());
+
+  await assert.rejects(
+    new OpenRouterAdapter().generate(provider('openrouter', server, { apiKey: 'k' }), { prompt: 'x' }),
+    /No image data in response: I cannot draw that/
+  );
+});
+
+test('OpenAI-compatible handles b64_json, url downloads, edits and probes', async t => {
+  const server = await startServer((req, body, res) => {
+    if (req.url === '/v1/images/generations') {
+      const request = JSON.parse(body);
+      return sendJson(res, 200, request.response_format === 'url'
+        ? { data: [{ url: `${server.url}/files/out.png` }] }
+        : { data: [{ b64_json: B64 }], usage: { input_tokens: 4, output_tokens: 8, total_tokens: 12 } });
+    }
+    if (req.url === '/v1/images/edits') {
+      return sendJson(res, 200, { data: [{ b64_json: B64 }] });
+    }
+    if (req.url === '/files/out.png') {
+      res.writeHead(200, { 'Content-Type': 'image/png' });
+      return res.end(PNG);
+    }
+    sendJson(res, 404, { error: 'not found' });
+  });
+  t.after(() => server.close());
+
+  const adapter = new OpenAICompatibleAdapter();
+  const gateway = { ...provider('gateway', server), baseUrl: `${server.url}/v1`, type: 'openai-compatible', headers: { 'X-Team': 'images' }, model: 'img-1' };
+
+  const b64 = await adapter.generate(gateway, { prompt: 'net', systemInstruction: 'domain', aspectRatio: '3:2' });
+  assert.ok(b64.data.equals(PNG));
+  assert.equal(b64.usage.totalTokens, 12);
+  const generation = JSON.parse(server.requests[0].body);
+  assert.equal(generation.prompt, 'domain\n\nnet');
+  assert.equal(generation.size, '1536x1024');
+  assert.equal(server.requests[0].headers['x-team'], 'images');
+
+  const url = await adapter.generate({ ...gateway, responseFormat: 'url' }, { prompt: 'net' });
+  assert.ok(url.data.equals(PNG));
+  assert.equal(url.mimeType, 'image/png');
+
+  const dir = tempDir();
+  const source = path.join(dir, 'source.png');
+  fs.writeFileSync(source, PNG);
+  const edit = await adapter.generate(gateway, { prompt: 'add a ball', mode: 'edit', sourceImagePath: source, maskPath: source });
+  assert.ok(edit.data.equals(PNG));
+  const editRequest = server.requests.find(r => r.url === '/v1/images/edits');
+  assert.match(editRequest.headers['content-type'], /^multipart\/form-data/);
+  assert.match(editRequest.body.toString('latin1'), /name="mask"; filename="source.png"/);
+
+  // Gateways without a models endpoint still pass the probe
+  await adapter.probe(gateway);
+});
+
+test('Automatic1111 posts txt2img with the seed and size', async t => {
+  const server = await startServer((req, body, res) => sendJson(res, 200, { images: [B64] }));
+  t.after(() => server.close());
+
+  const response = await new Automatic1111Adapter().generate(
+    provider('automatic1111', server, { model: 'sdxl', steps: 20, negativePrompt: 'blurry' }),
+    { prompt: 'serve', seed: 42, aspectRatio: '1:1', resolution: '1K' }
+  );
+
+  assert.ok(response.data.equals(PNG));
+  assert.equal(response.seed, 42);
+  const [request] = server.requests;
+  assert.equal(request.url, '/sdapi/v1/txt2img');
+  const body = JSON.parse(request.body);
+  assert.equal(body.seed, 42);
+  assert.equal(body.steps, 20);
+  assert.equal(body.negative_prompt, 'blurry');
+  assert.equal(body.width, body.height);
+  assert.deepEqual(body.override_settings, { sd_model_checkpoint: 'sdxl' });
+});
+
+function comfyWorkflow() {
+  const dir = tempDir();
+  const workflowPath = path.join(dir, 'workflow.json');
+  fs.writeFileSync(workflowPath, JSON.stringify({
+    3: { class_type: 'KSampler', inputs: { seed: '{{seed}}', steps: '{{steps}}' } },
+    6: { class_type: 'CLIPTextEncode', inputs: { text: 'style: {{prompt}}' } },
+    5: { class_type: 'EmptyLatentImage', inputs: { width: '{{width}}', height: '{{height}}' } }
+  }));
+  return workflowPath;
+}
+
+test('ComfyUI queues the rendered workflow, polls history and downloads the output', async t => {
+  let polls = 0;
+  const server = await startServer((req, body, res) => {
+    if (req.url === '/prompt') {
+      return sendJson(res, 200, { prompt_id: 'job-1' });
+    }
+    if (req.url === '/history/job-1') {
+      polls++;
+      return sendJson(res, 200, polls < 3 ? {} : {
+        'job-1': { status: { completed: true }, outputs: { 9: { images: [{ filename: 'out.png', subfolder: '', type: 'output' }] } } }
+      });
+    }
+    if (req.url.startsWith('/view?')) {
+      res.writeHead(200, { 'Content-Type': 'image/png' });
+      return res.end(PNG);
+    }
+    sendJson(res, 404, {});
+  });
+  t.after(() => server.close());
+
+  const response = await new ComfyUIAdapter(silentLogger).generate(
+    provider('comfyui', server, { workflowPath: comfyWorkflow(), pollIntervalMs: 10, steps: 12 }),
+    { prompt: 'a "quoted" lob', seed: 9 }
+  );
+
+  assert.ok(response.data.equals(PNG));
+  assert.equal(response.seed, 9);
+  assert.equal(polls, 3);
+
+  const queued = JSON.parse(server.requests[0].body).prompt;
+  assert.equal(queued[3].inputs.seed, 9);
+  assert.equal(queued[3].inputs.steps, 12);
+  assert.equal(queued[6].inputs.text, 'style: a "quoted" lob');
+  assert.equal(typeof queued[5].inputs.width, 'number');
+  assert.match(server.requests.at(-1).url, /^\/view\?filename=out.png/);
+});
+
+test('ComfyUI reports failed workflows and dequeues cancelled prompts', async t => {
+  let failed = true;
+  const server = await startServer((req, body, res) => {
+    if (req.url === '/prompt') {
+      return sendJson(res, 200, { prompt_id: 'job-2' });
+    }
+    if (req.url === '/history/job-2') {
+      return sendJson(res, 200, failed ? { 'job-2': { status: { status_str: 'error', messages: ['OOM'] } } } : {});
+    }
+    sendJson(res, 200, {});
+  });
+  t.after(() => server.close());
+
+  const adapter = new ComfyUIAdapter(silentLogger);
+  const config = provider('comfyui', server, { workflowPath: comfyWorkflow(), pollIntervalMs: 10 });
+
+  await assert.rejects(adapter.generate(config, { prompt: 'x' }), error =>
+    error instanceof ProviderError && error.errorClass === 'transient' && /OOM/.test(error.message));
+
+  failed = false;
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 50);
+  await assert.rejects(adapter.generate(config, { prompt: 'x', signal: controller.signal }));
+
+  const dequeue = server.requests.find(r => r.url === '/queue');
+  assert.ok(dequeue, 'cancelled prompt is removed from the queue');
+  assert.deepEqual(JSON.parse(dequeue.body), { delete: ['job-2'] });
+});
+
+test('legacy CLI removes the scratch file only after a killed generate.js has exited', async () => {
+  const repo = tempDir();
+  fs.mkdirSync(path.join(repo, 'scripts'));
+  // Ignores SIGTERM and writes its output late, like a slow provider call finishing
+  fs.writeFileSync(path.join(repo, 'scripts', 'generate.js'), [
+    "const fs = require('fs');",
+    "const output = process.argv[process.argv.indexOf('--output') + 1];",
+    "process.on('SIGTERM', () => undefined);",
+    "fs.writeFileSync(__dirname + '/output-path', output);",
+    "setTimeout(() => { fs.writeFileSync(output, 'late'); fs.writeFileSync(__dirname + '/done', ''); process.exit(0); }, 300);"
+  ].join('\n'));
+
+  const waitFor = async file => {
+    for (let waited = 0; !fs.existsSync(file) && waited < 5000; waited += 20) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  };
+  const outputPath = path.join(repo, 'scripts', 'output-path');
+
+  const controller = new AbortController();
+  waitFor(outputPath).then(() => controller.abort());
+  await assert.rejects(
+    new LegacyCliAdapter(repo).generate({ name: 'mock', priority: 1, enabled: true }, { prompt: 'x', signal: controller.signal }),
+    { name: 'GenerationAbortedError' }
+  );
+
+  await waitFor(path.join(repo, 'scripts', 'done'));
+  await new Promise(resolve => setTimeout(resolve, 100));
+
+  const scratch = fs.readFileSync(outputPath, 'utf-8');
+  assert.equal(fs.existsSync(scratch), false, 'scratch file written after the abort is removed');
+});
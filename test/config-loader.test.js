@@ -0,0 +1,85 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { ConfigLoader } = require('../dist/config-loader');
+const { silentLogger, tempDir } = require('./helpers');
+
+async function loadYaml(yaml) {
+  const dir = tempDir();
+  fs.writeFileSync(path.join(dir, 'config.yaml'), yaml);
+  const loader = new ConfigLoader({ configDir: dir, repositoryPath: dir, cwd: dir, logger: silentLogger });
+  return loader.load();
+}
+
+test('parses scalars, comments and quoted values', async () => {
+  const config = await loadYaml([
+    '# leading comment',
+    'defaultProvider: mock   # trailing comment',
+    'autoFallback: false',
+    'cacheTTL: 1500',
+    'outputPattern: "{template}/#{n}.{ext}"',
+    "outputDir: 'out dir'"
+  ].join('\n'));
+
+  assert.equal(config.autoFallback, false);
+  assert.equal(config.cacheTTL, 1500);
+  assert.equal(config.outputPattern, '{template}/#{n}.{ext}');
+  assert.equal(config.outputDir, 'out dir');
+});
+
+test('parses nested objects, lists of objects and inline lists', async () => {
+  const config = await loadYaml([
+    'circuitBreaker:',
+    '  failureThreshold: 5',
+    '  cooldownMs: 1000',
+    'providers:',
+    '  - name: mock',
+    '    priority: 2',
+    '    enabled: true',
+    '    headers:',
+    '      X-Team: images',
+    '  - name: gateway',
+    '    type: openai-compatible',
+    '    baseUrl: http://localhost:8080/v1',
+    '    priority: 1',
+    '    enabled: false',
+    'pricing:',
+    '  - provider: mock',
+    '    costPerImage: 0.04',
+    'resultCache:',
+    '  enabled: true',
+    '  maxSizeMb: 10',
+    'tags: [a, 2, true]'
+  ].join('\n'));
+
+  assert.deepEqual(config.circuitBreaker, { failureThreshold: 5, cooldownMs: 1000 });
+  const mock = config.providers.find(p => p.name === 'mock');
+  const gateway = config.providers.find(p => p.name === 'gateway');
+  assert.equal(mock.priority, 2);
+  assert.deepEqual(mock.headers, { 'X-Team': 'images' });
+  assert.equal(gateway.type, 'openai-compatible');
+  assert.equal(gateway.baseUrl, 'http://localhost:8080/v1');
+  assert.equal(gateway.enabled, false);
+  assert.deepEqual(config.pricing, [{ provider: 'mock', costPerImage: 0.04 }]);
+  assert.deepEqual(config.resultCache, { enabled: true, maxSizeMb: 10 });
+  assert.deepEqual(config.tags, ['a', 2, true]);
+});
+
+test('orders providers by priority', async () => {
+  const config = await loadYaml([
+    'providers:',
+    '  - name: mock',
+    '    priority: 3',
+    '    enabled: true',
+    '  - name: automatic1111',
+    '    baseUrl: http://gpu:7860',
+    '    priority: 0',
+    '    enabled: true'
+  ].join('\n'));
+
+  const names = config.providers.map(p => p.name);
+  assert.ok(names.indexOf('automatic1111') < names.indexOf('mock'));
+});
@@ -0,0 +1,85 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const { CostTracker } = require('../dist/cost-tracker');
+const { ProviderManager } = require('../dist/provider-manager');
+const { RateLimiter } = require('../dist/rate-limiter');
+const { silentLogger, tempDir } = require('./helpers');
+
+test('the most specific price entry wins and tokens are priced per million', () => {
+  const tracker = new CostTracker(tempDir(), {
+    pricing: [
+      { provider: 'gemini', costPerImage: 0.1 },
+      { provider: 'gemini', model: 'pro', costPerImage: 0.2 },
+      { provider: 'gemini', model: 'pro', resolution: '4K', costPerImage: 0.3, outputCostPerMillion: 1000 }
+    ]
+  }, silentLogger);
+
+  assert.equal(tracker.estimateCost('gemini', 'flash', '1K'), 0.1);
+  assert.equal(tracker.estimateCost('gemini', 'pro', '1K'), 0.2);
+  assert.equal(tracker.estimateCost('gemini', 'pro', '4K', { inputTokens: 0, outputTokens: 500, totalTokens: 500 }), 0.8);
+  assert.equal(tracker.estimateCost('openrouter', 'pro', '1K'), 0);
+  assert.equal(CostTracker.resolutionTier(2048, 1152), '2K');
+});
+
+test('usage is persisted and reported by provider and template', () => {
+  const dir = tempDir();
+  const config = { pricing: [{ provider: 'mock', costPerImage: 0.5 }] };
+  const tracker = new CostTracker(dir, config, silentLogger);
+  tracker.record({ provider: 'mock', model: 'm', template: 'sports/ill', resolution: '1K' });
+  tracker.record({ provider: 'mock', model: 'm', resolution: '1K' });
+
+  const reloaded = new CostTracker(dir, config, silentLogger);
+  const report = reloaded.getReport();
+  assert.equal(report.totalCount, 2);
+  assert.equal(report.totalCost, 1);
+  assert.deepEqual(report.byProvider, { mock: { count: 2, cost: 1 } });
+  assert.deepEqual(report.byTemplate, { 'sports/ill': { count: 1, cost: 0.5 }, none: { count: 1, cost: 0.5 } });
+  assert.equal(reloaded.getReport({ since: new Date(Date.now() + 60000) }).totalCount, 0);
+});
+
+function budgetSetup(onBudgetExhausted) {
+  const dir = tempDir();
+  const tracker = new CostTracker(dir, {
+    pricing: [{ provider: 'mock-a', costPerImage: 1 }],
+    budgets: [{ provider: 'mock-a', period: 'daily', limit: 1 }]
+  }, silentLogger);
+  const manager = new ProviderManager(dir, {
+    healthProbes: false,
+    costTracker: tracker,
+    rateLimiter: new RateLimiter(),
+    logger: silentLogger
+  });
+  const config = {
+    repositoryPath: dir,
+    defaultProvider: 'mock-a',
+    autoFallback: true,
+    onBudgetExhausted,
+    providers: [
+      { name: 'mock-a', type: 'mock', priority: 1, enabled: true },
+      { name: 'mock-b', type: 'mock', priority: 2, enabled: true }
+    ]
+  };
+  const request = () => ({ prompt: 'a ball', outputPath: path.join(dir, `out-${Math.random()}.png`) });
+  return { manager, config, request };
+}
+
+test('an exhausted budget skips the provider, or refuses with onBudgetExhausted: refuse', async () => {
+  const skip = budgetSetup('skip');
+  const first = await skip.manager.generateWithFallback(skip.request(), skip.config);
+  assert.equal(first.provider, 'mock-a');
+  assert.equal(first.cost, 1);
+
+  const second = await skip.manager.generateWithFallback(skip.request(), skip.config);
+  assert.equal(second.success, true);
+  assert.equal(second.provider, 'mock-b');
+
+  const refuse = budgetSetup('refuse');
+  await refuse.manager.generateWithFallback(refuse.request(), refuse.config);
+  const refused = await refuse.manager.generateWithFallback(refuse.request(), refuse.config);
+  assert.equal(refused.success, false);
+  assert.equal(refused.errorClass, 'quota');
+  assert.match(refused.error, /Budget exhausted: mock-a \(daily limit 1\)/);
+});
@@ -0,0 +1,91 @@
+'use strict';
+
+/**
+ * Shared test helpers: local HTTP stand-ins, temp directories and a tiny PNG
+ */
+
+const fs = require('fs');
+const http = require('http');
+const os = require('os');
+const path = require('path');
+const { encodePng } = require('../dist/png-utils');
+const { createLogger } = require('../dist/logger');
+
+const PNG = encodePng(2, 2, Buffer.alloc(12, 200));
+
+const silentLogger = createLogger({ level: 'silent' });
+
+/**
+ * Start a local HTTP server; `handler(req, body, res)` answers each request
+ * Resolves to { url, requests, close } where requests records method, url, headers and body
+ */
+function startServer(handler) {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks);
+      requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+      handler(req, body, res);
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        url: `http://127.0.0.1:${server.address().port}`,
+        requests,
+        close: () => new Promise(done => {
+          server.closeAllConnections();
+          server.close(() => done());
+        })
+      });
+    });
+  });
+}
+
+function sendJson(res, status, value) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(value));
+}
+
+function tempDir(prefix = 'create-image-test-') {
+  return fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+}
+
+/**
+ * Orchestrator context over a temp directory with a mock provider in config.yaml
+ */
+function mockContext(yaml = '', templates = {}) {
+  const dir = tempDir();
+  fs.mkdirSync(path.join(dir, 'cfg'));
+  for (const [name, config] of Object.entries(templates)) {
+    const templateDir = path.join(dir, 'repo', 'templates', name);
+    fs.mkdirSync(templateDir, { recursive: true });
+    fs.writeFileSync(path.join(templateDir, 'config.json'), JSON.stringify(config));
+  }
+  fs.mkdirSync(path.join(dir, 'repo', 'templates'), { recursive: true });
+  fs.writeFileSync(path.join(dir, 'cfg', 'config.yaml'), [
+    `repositoryPath: ${path.join(dir, 'repo')}`,
+    'defaultProvider: mock',
+    'healthProbes: false',
+    'providers:',
+    '  - name: mock',
+    '    priority: 0',
+    '    enabled: true',
+    yaml
+  ].join('\n'));
+
+  return {
+    dir,
+    context: {
+      configDir: path.join(dir, 'cfg'),
+      repositoryPath: path.join(dir, 'repo'),
+      cwd: dir,
+      logger: silentLogger
+    }
+  };
+}
+
+module.exports = { PNG, mockContext, sendJson, silentLogger, startServer, tempDir };
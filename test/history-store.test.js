@@ -0,0 +1,64 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { HistoryStore } = require('../dist/history-store');
+const { ImageOrchestrator } = require('../dist/orchestrator');
+const { PNG, mockContext, silentLogger, tempDir } = require('./helpers');
+
+function entry(extra) {
+  return { kind: 'image', success: true, request: {}, prompt: 'x', durationMs: 1, ...extra };
+}
+
+test('queries filter by template, provider, kind, outcome and prompt text, newest first', () => {
+  const dir = tempDir();
+  const image = path.join(dir, 'out.png');
+  fs.writeFileSync(image, PNG);
+  const store = new HistoryStore(dir, silentLogger);
+
+  const first = store.record(entry({ template: 'sports/ill', provider: 'gemini', userPrompt: 'Kitchen DINK', prompt: 'Diagram: Kitchen DINK', path: image }));
+  store.record(entry({ provider: 'mock', prompt: 'a lob', success: false, error: 'quota' }));
+  store.record(entry({ kind: 'variants', template: 'sports/ill', provider: 'mock', prompt: 'a serve' }));
+
+  assert.equal(first.size, PNG.length);
+  assert.match(first.sha256, /^[a-f0-9]{64}$/);
+
+  const reopened = new HistoryStore(dir, silentLogger);
+  assert.deepEqual(reopened.query().map(e => e.prompt), ['a serve', 'a lob', 'Diagram: Kitchen DINK']);
+  assert.deepEqual(reopened.query({ template: 'sports/ill' }).map(e => e.kind), ['variants', 'image']);
+  assert.deepEqual(reopened.query({ provider: 'mock', success: false }).map(e => e.error), ['quota']);
+  assert.deepEqual(reopened.query({ text: 'kitchen dink' }).map(e => e.id), [first.id]);
+  assert.equal(reopened.query({ kind: 'variants' }).length, 1);
+  assert.equal(reopened.query({ limit: 2 }).length, 2);
+  assert.equal(reopened.query({ since: new Date(Date.now() + 60000) }).length, 0);
+});
+
+test('malformed lines are skipped', () => {
+  const dir = tempDir();
+  const store = new HistoryStore(dir, silentLogger);
+  store.record(entry({ prompt: 'kept' }));
+  fs.appendFileSync(path.join(dir, 'history.jsonl'), '{not json\n');
+
+  assert.deepEqual(store.query().map(e => e.prompt), ['kept']);
+});
+
+test('the orchestrator records successes, failures and replays', async () => {
+  const { context } = mockContext();
+  const orchestrator = new ImageOrchestrator(context);
+
+  const result = await orchestrator.generateImage({ prompt: 'a drive', seed: 4 });
+  await orchestrator.generateImage({ prompt: 'blocked [mock:safety]' });
+  await orchestrator.replay(result.id);
+
+  const [replay, failure, image] = orchestrator.queryHistory();
+  assert.equal(image.kind, 'image');
+  assert.equal(image.resultId, result.id);
+  assert.equal(image.seed, 4);
+  assert.deepEqual(image.request, { prompt: 'a drive', seed: 4 });
+  assert.equal(failure.success, false);
+  assert.equal(failure.errorClass, 'safety');
+  assert.equal(replay.kind, 'replay');
+  assert.equal(replay.replayOf, result.id);
+});
@@ -0,0 +1,35 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { conformToAspectRatio, dimensionsFor, nearestAspectRatio, parseAspectRatio } = require('../dist/image-processing');
+const { imageDimensions } = require('../dist/provider-adapter');
+const { encodePng } = require('../dist/png-utils');
+
+const square = encodePng(160, 160, Buffer.alloc(160 * 160 * 3, 90));
+
+test('parses aspect ratios and picks the nearest supported one', () => {
+  assert.deepEqual(parseAspectRatio('16:9'), { width: 16, height: 9 });
+  assert.deepEqual(parseAspectRatio('3x2'), { width: 3, height: 2 });
+  assert.equal(parseAspectRatio('wide'), null);
+  assert.equal(parseAspectRatio('0:1'), null);
+
+  assert.equal(nearestAspectRatio('17:9', ['1:1', '16:9', '21:9']), '16:9');
+  assert.equal(nearestAspectRatio('1:3', ['1:1', '9:16']), '9:16');
+});
+
+test('sizes follow the resolution tier on the long side, rounded to 64', () => {
+  assert.deepEqual(dimensionsFor('16:9', '1K'), { width: 1024, height: 576 });
+  assert.deepEqual(dimensionsFor('9:16', '2K'), { width: 1152, height: 2048 });
+  assert.deepEqual(dimensionsFor(undefined, '4K'), { width: 4096, height: 4096 });
+});
+
+test('crops or pads an image to the requested aspect ratio', async () => {
+  const cropped = await conformToAspectRatio(square, '16:9', 'crop');
+  assert.deepEqual(imageDimensions(cropped), { width: 160, height: 90 });
+
+  const padded = await conformToAspectRatio(square, '16:9', 'pad');
+  assert.deepEqual(imageDimensions(padded), { width: 284, height: 160 });
+
+  assert.equal(await conformToAspectRatio(square, '1:1'), null, 'matching images are left alone');
+});
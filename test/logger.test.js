@@ -0,0 +1,53 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { createLogger, redactSecrets, registerSecret } = require('../dist/logger');
+
+function capture(options = {}) {
+  const records = [];
+  const logger = createLogger({ ...options, write: record => records.push(record) });
+  return { logger, records };
+}
+
+test('redacts keys in URLs, headers, JSON and known key formats', () => {
+  assert.equal(
+    redactSecrets('GET https://host/v1/models?key=abc123456789&alt=json'),
+    'GET https://host/v1/models?key=[REDACTED]&alt=json'
+  );
+  assert.equal(redactSecrets('Authorization: Bearer or-abcdefghijkl'), 'Authorization: Bearer [REDACTED]');
+  assert.equal(redactSecrets('{"apiKey": "plain-secret"}'), '{"apiKey": "[REDACTED]"}');
+  assert.equal(redactSecrets('key AIzaSyA1234567890abcdefghijklmn used'), 'key [REDACTED] used');
+  assert.equal(redactSecrets('sk-abcdefghijklmnop1234 failed'), '[REDACTED] failed');
+});
+
+test('redacts registered secrets and credential environment variables', t => {
+  registerSecret('configured-secret-value');
+  process.env.CREATE_IMAGE_TEST_TOKEN = 'env-token-value';
+  t.after(() => delete process.env.CREATE_IMAGE_TEST_TOKEN);
+
+  assert.equal(redactSecrets('sent configured-secret-value and env-token-value'), 'sent [REDACTED] and [REDACTED]');
+});
+
+test('filters by level and redacts messages, details and errors', () => {
+  const { logger, records } = capture({ level: 'info' });
+  const child = logger.child('ProviderManager');
+
+  child.debug('not shown');
+  child.info('Calling https://host?key=abc123456789', { provider: 'gemini', apiKey: 'whatever', nested: { token: 'x' } });
+  child.error('Failed', new Error('HTTP 401 from /v1/models?key=abc123456789'));
+
+  assert.equal(records.length, 2);
+  assert.equal(records[0].namespace, 'ProviderManager');
+  assert.equal(records[0].message, 'Calling https://host?key=[REDACTED]');
+  assert.deepEqual(records[0].data, { provider: 'gemini', apiKey: '[REDACTED]', nested: { token: '[REDACTED]' } });
+  assert.equal(records[1].level, 'error');
+  assert.match(records[1].error, /key=\[REDACTED\]/);
+  assert.doesNotMatch(records[1].error, /abc123456789/);
+});
+
+test('a failing destination never throws into the caller', () => {
+  const logger = createLogger({ write: () => { throw new Error('disk full'); } });
+  assert.doesNotThrow(() => logger.warn('still fine'));
+  assert.doesNotThrow(() => createLogger({ level: 'silent', write: () => assert.fail('silent writes nothing') }).error('x'));
+});
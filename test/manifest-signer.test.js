@@ -0,0 +1,73 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { ManifestSigner } = require('../dist/manifest-signer');
+const { PNG, silentLogger, tempDir } = require('./helpers');
+
+function signed(details = {}) {
+  const dir = tempDir();
+  const asset = path.join(dir, 'dink.png');
+  fs.writeFileSync(asset, PNG);
+  const signer = new ManifestSigner(path.join(dir, 'cfg'), silentLogger);
+  const manifestPath = signer.sign(asset, { kind: 'image', provider: 'mock', seed: 3, ...details });
+  return { dir, asset, signer, manifestPath };
+}
+
+test('a signed asset verifies, from the asset or from its manifest', () => {
+  const { asset, signer, manifestPath } = signed();
+
+  assert.equal(manifestPath, `${asset}.manifest.json`);
+  const fromAsset = signer.verify(asset);
+  assert.equal(fromAsset.valid, true, fromAsset.errors.join('; '));
+  assert.deepEqual(fromAsset.errors, []);
+
+  const fromManifest = signer.verify(manifestPath);
+  assert.equal(fromManifest.valid, true);
+  assert.equal(fromManifest.assetPath, asset);
+});
+
+test('an altered asset or manifest fails verification', () => {
+  const { asset, signer, manifestPath } = signed();
+
+  fs.appendFileSync(asset, 'tampered');
+  const alteredAsset = signer.verify(asset);
+  assert.equal(alteredAsset.valid, false);
+  assert.equal(alteredAsset.signatureValid, true);
+  assert.equal(alteredAsset.assetIntact, false);
+
+  fs.writeFileSync(asset, PNG);
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  fs.writeFileSync(manifestPath, JSON.stringify({ ...manifest, provider: 'gemini' }));
+  const alteredManifest = signer.verify(asset);
+  assert.equal(alteredManifest.valid, false);
+  assert.equal(alteredManifest.signatureValid, false);
+  assert.equal(alteredManifest.assetIntact, true);
+});
+
+test('other keys are only trusted when given, and changed inputs are reported', () => {
+  const dir = tempDir();
+  const domainKnowledge = path.join(dir, 'domain-knowledge.txt');
+  fs.writeFileSync(domainKnowledge, 'rules v1');
+  const { asset, signer } = signed({ domainKnowledgePath: domainKnowledge });
+
+  const stranger = new ManifestSigner(path.join(tempDir(), 'cfg'), silentLogger);
+  const untrusted = stranger.verify(asset);
+  assert.equal(untrusted.valid, false);
+  assert.equal(untrusted.trustedKey, false);
+  assert.equal(stranger.verify(asset, [signer.publicKey()]).valid, true);
+
+  fs.writeFileSync(domainKnowledge, 'rules v2');
+  const changed = signer.verify(asset);
+  assert.equal(changed.valid, true, 'changed inputs do not fail verification');
+  assert.deepEqual(changed.changedInputs, [domainKnowledge]);
+});
+
+test('a missing manifest is reported', () => {
+  const dir = tempDir();
+  const result = new ManifestSigner(dir, silentLogger).verify(path.join(dir, 'none.png'));
+  assert.equal(result.valid, false);
+  assert.match(result.errors[0], /No manifest found/);
+});
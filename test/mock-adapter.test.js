@@ -0,0 +1,56 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { MockAdapter } = require('../dist/mock-adapter');
+const { ProviderError } = require('../dist/provider-errors');
+
+const provider = (extra = {}) => ({ name: 'mock', type: 'mock', enabled: true, width: 64, height: 64, ...extra });
+
+test('the same seed gives identical bytes and a different seed different bytes', async () => {
+  const adapter = new MockAdapter();
+  const first = await adapter.generate(provider(), { prompt: 'a ball', seed: 7 });
+  const again = await new MockAdapter().generate(provider(), { prompt: 'a ball', seed: 7 });
+  const other = await adapter.generate(provider(), { prompt: 'a ball', seed: 8 });
+
+  assert.equal(first.seed, 7);
+  assert.deepEqual(again.data, first.data);
+  assert.notDeepEqual(other.data, first.data);
+
+  // Without a seed one is derived from the prompt, and passing it back reproduces the image
+  const derived = await adapter.generate(provider(), { prompt: 'a ball' });
+  const replayed = await adapter.generate(provider(), { prompt: 'a ball', seed: derived.seed });
+  assert.deepEqual(replayed.data, derived.data);
+});
+
+test('each [mock:<class>] marker throws that error class', async () => {
+  const adapter = new MockAdapter();
+  for (const errorClass of ['auth', 'quota', 'safety', 'invalid-request', 'timeout', 'transient', 'unknown']) {
+    await assert.rejects(adapter.generate(provider(), { prompt: `a ball [mock:${errorClass}]` }), error =>
+      error instanceof ProviderError && error.errorClass === errorClass);
+  }
+
+  await assert.rejects(adapter.generate(provider(), { prompt: 'a ball [mock:quota]' }), error =>
+    error.status === 429 && error.retryAfterMs === 1000);
+
+  // Unknown markers are ignored
+  const result = await adapter.generate(provider(), { prompt: 'a ball [mock:nonsense]' });
+  assert.equal(result.mimeType, 'image/png');
+});
+
+test('simulateErrorCount fails only the first calls, per provider', async () => {
+  const adapter = new MockAdapter();
+  const flaky = provider({ name: 'flaky', simulateError: 'transient', simulateErrorCount: 2 });
+
+  for (let i = 0; i < 2; i++) {
+    await assert.rejects(adapter.generate(flaky, { prompt: 'a ball' }), error => error.errorClass === 'transient');
+  }
+  const recovered = await adapter.generate(flaky, { prompt: 'a ball' });
+  assert.ok(recovered.data.length > 0);
+
+  // Other providers keep their own count; without a count every call fails
+  const always = provider({ name: 'always', simulateError: 'timeout' });
+  for (let i = 0; i < 3; i++) {
+    await assert.rejects(adapter.generate(always, { prompt: 'a ball' }), error => error.errorClass === 'timeout');
+  }
+});
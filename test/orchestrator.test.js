@@ -0,0 +1,169 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { ImageOrchestrator } = require('../dist/orchestrator');
+const { PNG, mockContext } = require('./helpers');
+
+test('reusing one request object never overwrites the previous image', async () => {
+  const { dir, context } = mockContext();
+  const orchestrator = new ImageOrchestrator(context);
+  const request = { prompt: 'A red boat on a lake' };
+
+  const first = await orchestrator.generateImage(request);
+  const firstBytes = fs.readFileSync(first.path);
+  const second = await orchestrator.generateImage(request);
+
+  assert.equal(first.success, true);
+  assert.equal(second.success, true);
+  assert.equal(path.relative(dir, first.path), 'a-red-boat-on-a-lake.png');
+  assert.equal(path.relative(dir, second.path), 'a-red-boat-on-a-lake-2.png');
+  assert.ok(fs.readFileSync(first.path).equals(firstBytes), 'first image is untouched');
+  assert.deepEqual(request, { prompt: 'A red boat on a lake' }, 'caller object is not modified');
+});
+
+test('an explicit output path moves on to the next free name unless overwrite is set', async () => {
+  const { dir, context } = mockContext();
+  const orchestrator = new ImageOrchestrator(context);
+
+  const first = await orchestrator.generateImage({ prompt: 'a boat', outputPath: 'boat.png' });
+  const firstBytes = fs.readFileSync(first.path);
+  const second = await orchestrator.generateImage({ prompt: 'a boat', outputPath: 'boat.png' });
+  assert.equal(path.relative(dir, first.path), 'boat.png');
+  assert.equal(path.relative(dir, second.path), 'boat-2.png');
+  assert.ok(fs.readFileSync(first.path).equals(firstBytes), 'first image is untouched');
+
+  const replaced = await orchestrator.generateImage({ prompt: 'a canoe', outputPath: 'boat.png', overwrite: true });
+  assert.equal(path.relative(dir, replaced.path), 'boat.png');
+  assert.ok(!fs.readFileSync(first.path).equals(firstBytes), 'overwrite replaces the file');
+});
+
+test('explain leaves the request untouched', async () => {
+  const { context } = mockContext('', { 'sports/ill': { version: '1.0.0', aspect_ratio: '16:9' } });
+  const orchestrator = new ImageOrchestrator(context);
+  const request = { prompt: 'dink', template: 'sports/ill' };
+
+  const plan = await orchestrator.explain(request);
+
+  assert.equal(plan.size.aspectRatio, '16:9');
+  assert.deepEqual(request, { prompt: 'dink', template: 'sports/ill' });
+});
+
+test('batch resume skips rows whose output was converted by post-processing', async () => {
+  const { dir, context } = mockContext('', {
+    'sports/ill': { version: '1.0.0', post_process: [{ op: 'format', format: 'webp' }] }
+  });
+  const orchestrator = new ImageOrchestrator(context);
+  const manifest = path.join(dir, 'batch.csv');
+  fs.writeFileSync(manifest, 'prompt,template,output\nserve,sports/ill,out/serve.png\nplain,,out/plain.png\n');
+
+  const first = await orchestrator.generateBatch(manifest);
+  assert.equal(first.generated, 2);
+  assert.equal(path.basename(first.rows[0].path), 'serve.webp');
+
+  const resumed = await orchestrator.generateBatch(manifest);
+  assert.equal(resumed.generated, 0);
+  assert.equal(resumed.skipped, 2);
+  assert.equal(resumed.rows[0].path, first.rows[0].path);
+});
+
+test('variants get consecutive seeds, a contact sheet, and never overwrite earlier candidates', async () => {
+  const { dir, context } = mockContext();
+  const orchestrator = new ImageOrchestrator(context);
+  fs.writeFileSync(path.join(dir, 'dink-1.png'), 'earlier candidate');
+
+  const result = await orchestrator.generateImage({ prompt: 'dink', outputPath: 'dink.png', count: 3, seed: 1234 });
+
+  assert.equal(result.success, true, result.error);
+  assert.deepEqual(result.variants.map(v => path.relative(dir, v.path)), ['dink-2-1.png', 'dink-2-2.png', 'dink-2-3.png']);
+  assert.deepEqual(result.variants.map(v => v.seed), [1234, 1235, 1236]);
+  assert.equal(path.relative(dir, result.contactSheetPath), 'dink-2-contact.png');
+  assert.ok(fs.existsSync(result.contactSheetPath));
+  assert.equal(fs.readFileSync(path.join(dir, 'dink-1.png'), 'utf-8'), 'earlier candidate');
+});
+
+test('variants run a few at a time', async () => {
+  const { context } = mockContext('    latencyMs: 30');
+  const orchestrator = new ImageOrchestrator(context);
+  let active = 0;
+  let peak = 0;
+  orchestrator.events.on('provider-attempt', () => { peak = Math.max(peak, ++active); });
+  orchestrator.events.on('variant-complete', () => { active--; });
+
+  const result = await orchestrator.generateImage({ prompt: 'serve', count: 8 });
+
+  assert.equal(result.variants.filter(v => v.success).length, 8);
+  assert.ok(peak > 1 && peak <= 4, `peak concurrency ${peak}`);
+});
+
+test('edits are saved next to the source as {name}-edited without overwriting', async () => {
+  const { dir, context } = mockContext();
+  const orchestrator = new ImageOrchestrator(context);
+  fs.writeFileSync(path.join(dir, 'court.png'), PNG);
+
+  const first = await orchestrator.generateImage({ prompt: 'add a net', mode: 'edit', sourceImagePath: 'court.png' });
+  const second = await orchestrator.generateImage({ prompt: 'add a net', mode: 'edit', sourceImagePath: 'court.png' });
+
+  assert.equal(first.success, true, first.error);
+  assert.equal(path.relative(dir, first.path), 'court-edited.png');
+  assert.equal(path.relative(dir, second.path), 'court-edited-2.png');
+  assert.ok(fs.readFileSync(path.join(dir, 'court.png')).equals(PNG), 'source is untouched');
+});
+
+test('replay reproduces a result with the recorded provider and seed', async () => {
+  const { dir, context } = mockContext();
+  const orchestrator = new ImageOrchestrator(context);
+
+  const original = await orchestrator.generateImage({ prompt: 'third shot drop', outputPath: 'drop.png', seed: 77 });
+  const replayed = await orchestrator.replay(original.id);
+
+  assert.equal(replayed.success, true, replayed.error);
+  assert.equal(replayed.replayOf, original.id);
+  assert.equal(replayed.provider, 'mock');
+  assert.equal(replayed.seed, 77);
+  assert.equal(path.relative(dir, replayed.path), 'drop-replay.png');
+
+  const missing = await orchestrator.replay('no-such-id');
+  assert.equal(missing.errorClass, 'invalid-request');
+});
+
+test('replay refuses when the recorded provider would not be the one called', async () => {
+  const { context } = mockContext([
+    '  - name: mock-b',
+    '    type: mock',
+    '    priority: 1',
+    '    enabled: true',
+    'pricing:',
+    '  - provider: mock',
+    '    costPerImage: 1',
+    'budgets:',
+    '  - provider: mock',
+    '    period: daily',
+    '    limit: 1'
+  ].join('\n'));
+  const orchestrator = new ImageOrchestrator(context);
+
+  const original = await orchestrator.generateImage({ prompt: 'erne', seed: 5 });
+  assert.equal(original.provider, 'mock');
+
+  const replayed = await orchestrator.replay(original.id);
+  assert.equal(replayed.success, false);
+  assert.equal(replayed.errorClass, 'invalid-request');
+  assert.match(replayed.error, /Provider mock cannot take this request \(daily budget of 1 exhausted\)/);
+});
+
+test('explain shows the prompt composed from the template', async () => {
+  const { context } = mockContext('', { 'sports/ill': { version: '1.0.0' } });
+  const templateDir = path.join(context.repositoryPath, 'templates', 'sports', 'ill');
+  fs.mkdirSync(path.join(templateDir, 'prompts'));
+  fs.writeFileSync(path.join(templateDir, 'prompts', 'diagram.txt'), 'Diagram of {{prompt}}');
+  fs.writeFileSync(path.join(templateDir, 'domain-knowledge.txt'), 'Pickleball rules');
+  const orchestrator = new ImageOrchestrator(context);
+
+  const plan = await orchestrator.explain({ prompt: 'the kitchen', template: 'sports/ill', type: 'diagram' });
+
+  assert.equal(plan.prompt, 'Diagram of the kitchen');
+  assert.equal(plan.systemInstruction, 'Pickleball rules');
+});
@@ -0,0 +1,23 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { postProcessImage } = require('../dist/post-processor');
+const { PNG, tempDir } = require('./helpers');
+
+test('a format change never overwrites an existing file with the new extension', async () => {
+  const dir = tempDir();
+  const source = path.join(dir, 'foo.png');
+  const existing = path.join(dir, 'foo.webp');
+  fs.writeFileSync(source, PNG);
+  fs.writeFileSync(existing, 'earlier image');
+
+  const result = await postProcessImage(source, [{ op: 'format', format: 'webp' }]);
+
+  assert.equal(result.path, path.join(dir, 'foo-2.webp'));
+  assert.equal(result.format, 'webp');
+  assert.equal(fs.readFileSync(existing, 'utf-8'), 'earlier image');
+  assert.equal(fs.existsSync(source), false);
+});
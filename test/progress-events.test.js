@@ -0,0 +1,52 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ImageOrchestrator } = require('../dist/orchestrator');
+const { ProgressEmitter } = require('../dist/progress-events');
+const { mockContext, silentLogger } = require('./helpers');
+
+test('a generation emits template, attempt, fallback and finished events in order', async () => {
+  const { context } = mockContext([
+    '    simulateError: quota',
+    '  - name: mock-b',
+    '    type: mock',
+    '    priority: 1',
+    '    enabled: true'
+  ].join('\n'), { 'sports/ill': { version: '2.1.0' } });
+  const orchestrator = new ImageOrchestrator(context);
+
+  const events = [];
+  for (const name of ['template-loaded', 'provider-attempt', 'fallback', 'finished']) {
+    orchestrator.events.on(name, payload => events.push([name, payload]));
+  }
+
+  const result = await orchestrator.generateImage({ prompt: 'a lob', template: 'sports/ill' });
+
+  assert.equal(result.provider, 'mock-b');
+  assert.deepEqual(events.map(([name]) => name), ['template-loaded', 'provider-attempt', 'fallback', 'provider-attempt', 'finished']);
+  assert.equal(events[0][1].version, '2.1.0');
+  assert.deepEqual(events[1][1], { provider: 'mock', model: undefined, role: 'primary', attempt: 1 });
+  assert.equal(events[2][1].from, 'mock');
+  assert.equal(events[2][1].to, 'mock-b');
+  assert.equal(events[2][1].errorClass, 'quota');
+  assert.equal(events[3][1].role, 'fallback');
+  assert.equal(events[4][1].kind, 'image');
+  assert.equal(events[4][1].success, true);
+  assert.equal(events[4][1].path, result.path);
+});
+
+test('a listener that throws does not affect generation or other listeners', async () => {
+  const emitter = new ProgressEmitter(silentLogger);
+  const seen = [];
+  emitter.on('finished', () => { throw new Error('broken listener'); });
+  emitter.on('finished', event => seen.push(event.kind));
+  emitter.once('variant-complete', event => seen.push(event.index));
+
+  assert.doesNotThrow(() => emitter.emit('finished', { kind: 'image', success: true, durationMs: 1 }));
+  assert.deepEqual(seen, ['image'], 'the listener after the broken one still runs');
+  seen.length = 0;
+  emitter.emit('variant-complete', { index: 1, total: 2, success: true });
+  emitter.emit('variant-complete', { index: 2, total: 2, success: true });
+  assert.deepEqual(seen, [1], 'once listeners fire a single time');
+});
@@ -0,0 +1,67 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { composePrompt, serializeStyleGuide } = require('../dist/prompt-composer');
+const { silentLogger } = require('./helpers');
+
+function template(config = {}, styleGuide = {}) {
+  return {
+    name: 'sports/illustrative',
+    topic: 'sports',
+    style: 'illustrative',
+    description: 'Flat sports illustrations',
+    config,
+    styleGuide
+  };
+}
+
+test('composes type prompt, user prompt and style guide in the default order', () => {
+  const composed = composePrompt(
+    template({ prompts: { diagram: 'A {{style}} {{type}} about {{topic}}.' } }, { colors: { primary: '#0a3' }, lines: 'bold' }),
+    { prompt: 'kitchen line positions', type: 'diagram' },
+    silentLogger
+  );
+
+  assert.deepEqual(composed.sections, ['type_prompt', 'prompt', 'style_guide']);
+  assert.equal(composed.prompt, [
+    'A illustrative diagram about sports.',
+    'kitchen line positions',
+    'Style guide:\n- colors:\n  - primary: #0a3\n- lines: bold'
+  ].join('\n\n'));
+  assert.deepEqual(composed.unresolved, []);
+});
+
+test('a type prompt with {{prompt}} embeds it, and order, separator and heading are configurable', () => {
+  const composed = composePrompt(
+    template({
+      prompts: { hero: 'Hero shot: {{prompt}} in {{colors.primary}}' },
+      composition: { order: ['style_guide', 'type_prompt'], separator: ' | ', style_guide_heading: '' }
+    }, { colors: { primary: 'teal' } }),
+    { prompt: 'a paddle', type: 'hero' },
+    silentLogger
+  );
+
+  assert.deepEqual(composed.sections, ['style_guide', 'type_prompt']);
+  assert.equal(composed.prompt, '- colors:\n  - primary: teal | Hero shot: a paddle in teal');
+});
+
+test('domain knowledge becomes the system instruction and unknown placeholders are reported', () => {
+  const composed = composePrompt(
+    template({ domainKnowledge: 'Rules for {{topic}}: {{rulebook}}' }),
+    { prompt: 'a serve' },
+    silentLogger
+  );
+
+  assert.equal(composed.prompt, 'a serve');
+  assert.equal(composed.systemInstruction, 'Rules for sports:');
+  assert.deepEqual(composed.unresolved, ['rulebook']);
+});
+
+test('style guides serialize lists and skip empty values', () => {
+  assert.equal(
+    serializeStyleGuide({ palette: ['red', 'blue'], notes: null, font_family: 'Inter' }),
+    '- palette: red, blue\n- font family: Inter'
+  );
+  assert.equal(serializeStyleGuide(['not', 'an', 'object']), '');
+});
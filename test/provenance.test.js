@@ -0,0 +1,67 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const sharp = require('sharp');
+const { embedProvenance, readProvenance } = require('../dist/provenance');
+const { ImageOrchestrator } = require('../dist/orchestrator');
+const { PNG, mockContext, tempDir } = require('./helpers');
+
+const provenance = {
+  generator: 'create-image',
+  prompt: 'Composed <prompt> & "quotes"',
+  userPrompt: 'a dink',
+  provider: 'mock',
+  seed: 42,
+  createdAt: '2026-10-19T10:00:00.000Z'
+};
+
+async function sample(format) {
+  if (format === 'png') return PNG;
+  return sharp({ create: { width: 8, height: 8, channels: 3, background: '#336699' } })[format]().toBuffer();
+}
+
+for (const format of ['png', 'jpeg', 'webp']) {
+  test(`${format}: provenance round-trips and re-embedding replaces it`, async () => {
+    const file = path.join(tempDir(), `image.${format}`);
+    fs.writeFileSync(file, await sample(format));
+
+    assert.equal(readProvenance(file), null);
+    assert.equal(embedProvenance(file, provenance), true);
+    assert.deepEqual(readProvenance(file), provenance);
+
+    assert.equal(embedProvenance(file, { ...provenance, seed: 43 }), true);
+    assert.equal(readProvenance(file).seed, 43);
+    assert.ok(await sharp(file).metadata(), 'file still decodes');
+  });
+}
+
+test('unsupported formats are left untouched', () => {
+  const file = path.join(tempDir(), 'notes.txt');
+  fs.writeFileSync(file, 'not an image');
+  assert.equal(embedProvenance(file, provenance), false);
+  assert.equal(fs.readFileSync(file, 'utf-8'), 'not an image');
+});
+
+test('generated images carry the prompt, provider, seed and result id', async () => {
+  const { context } = mockContext();
+  const result = await new ImageOrchestrator(context).generateImage({ prompt: 'a drive', seed: 9 });
+
+  const embedded = readProvenance(result.path);
+  assert.equal(embedded.prompt, 'a drive');
+  assert.equal(embedded.provider, 'mock');
+  assert.equal(embedded.seed, 9);
+  assert.equal(embedded.resultId, result.id);
+});
+
+test('the plugin returns null for a missing file instead of throwing', async t => {
+  const home = process.env.HOME;
+  process.env.HOME = tempDir();
+  t.after(() => { process.env.HOME = home; });
+
+  const { createPlugin } = require('../dist/index');
+  const plugin = await createPlugin(tempDir());
+  assert.equal(plugin.readProvenance('missing.png'), null);
+});
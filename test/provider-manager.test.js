@@ -0,0 +1,291 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { ProviderManager } = require('../dist/provider-manager');
+const { CircuitBreaker } = require('../dist/circuit-breaker');
+const { RateLimiter } = require('../dist/rate-limiter');
+const { registerProvider, unregisterProvider } = require('../dist/provider-registry');
+const { MockAdapter } = require('../dist/mock-adapter');
+const { PNG, silentLogger, startServer, tempDir } = require('./helpers');
+
+function mock(name, priority, extra = {}) {
+  return { name, type: 'mock', priority, enabled: true, ...extra };
+}
+
+function setup(providers, options = {}) {
+  const dir = tempDir();
+  const manager = new ProviderManager(dir, {
+    healthProbes: false,
+    rateLimiter: new RateLimiter(),
+    logger: silentLogger,
+    ...options
+  });
+  const config = {
+    repositoryPath: dir,
+    defaultProvider: providers[0].name,
+    providers,
+    autoFallback: true
+  };
+  const request = (extra = {}) => ({ prompt: 'a ball', outputPath: path.join(dir, `out-${Date.now()}-${Math.random()}.png`), ...extra });
+  return { manager, config, request };
+}
+
+test('circuit breaker: closed, open at the threshold, half-open after the cooldown', () => {
+  const breaker = new CircuitBreaker(2, 50);
+  assert.equal(breaker.getState(), 'closed');
+
+  breaker.recordFailure();
+  assert.equal(breaker.getState(), 'closed');
+  breaker.recordFailure();
+  assert.equal(breaker.getState(), 'open');
+  assert.equal(breaker.canAttempt(), false);
+  assert.ok(breaker.getRetryInMs() > 0);
+});
+
+test('circuit breaker: one half-open trial decides, and a released trial can be claimed again', () => {
+  const breaker = new CircuitBreaker(1, 0);
+  breaker.recordFailure();
+  assert.equal(breaker.getState(), 'half-open');
+
+  assert.equal(breaker.canAttempt(), true);
+  assert.equal(breaker.canAttempt(), false, 'only one trial at a time');
+
+  breaker.releaseTrial();
+  assert.equal(breaker.canAttempt(), true, 'released trial is available again');
+
+  breaker.recordFailure();
+  assert.equal(breaker.getConsecutiveFailures(), 2);
+  assert.equal(breaker.canAttempt(), true, 'zero cooldown: half-open again');
+
+  breaker.recordSuccess();
+  assert.equal(breaker.getState(), 'closed');
+  assert.equal(breaker.getConsecutiveFailures(), 0);
+});
+
+test('falls back to the next provider on a quota error', async () => {
+  const { manager, config, request } = setup([
+    mock('mock-a', 1, { simulateError: 'quota' }),
+    mock('mock-b', 2)
+  ]);
+
+  const result = await manager.generateWithFallback(request(), config);
+
+  assert.equal(result.success, true);
+  assert.equal(result.provider, 'mock-b');
+  assert.equal(result.fallbackUsed, true);
+  assert.deepEqual(result.attempts.map(a => [a.provider, a.success, a.errorClass]), [
+    ['mock-a', false, 'quota'],
+    ['mock-b', true, undefined]
+  ]);
+});
+
+test('does not fall back on a safety block, and does not without autoFallback', async () => {
+  const { manager, config, request } = setup([mock('mock-a', 1), mock('mock-b', 2)]);
+
+  const blocked = await manager.generateWithFallback(request({ prompt: 'x [mock:safety]' }), config);
+  assert.equal(blocked.success, false);
+  assert.equal(blocked.errorClass, 'safety');
+  assert.equal(blocked.attempts.length, 1);
+
+  const noFallback = await manager.generateWithFallback(
+    request({ prompt: 'x [mock:transient]' }),
+    { ...config, autoFallback: false }
+  );
+  assert.equal(noFallback.success, false);
+  assert.equal(noFallback.attempts.length, 1);
+});
+
+test('an open circuit skips the provider until the cooldown ends', async () => {
+  const { manager, config, request } = setup(
+    [mock('mock-a', 1, { simulateError: 'transient' }), mock('mock-b', 2)],
+    { circuitBreaker: { failureThreshold: 2, cooldownMs: 60000 } }
+  );
+
+  await manager.generateWithFallback(request(), config);
+  await manager.generateWithFallback(request(), config);
+  const third = await manager.generateWithFallback(request(), config);
+
+  assert.equal(third.success, true);
+  assert.equal(third.provider, 'mock-b');
+  assert.match(third.attempts[0].error, /circuit is open/);
+});
+
+test('a half-open trial closes the circuit on success', async () => {
+  const { manager, config, request } = setup(
+    [mock('mock-a', 1, { simulateError: 'transient', simulateErrorCount: 1 })],
+    { circuitBreaker: { failureThreshold: 1, cooldownMs: 0 } }
+  );
+
+  assert.equal((await manager.generateWithFallback(request(), config)).success, false);
+  assert.equal((await manager.generateWithFallback(request(), config)).success, true);
+  assert.equal(manager.getCircuitBreaker('mock-a').getState(), 'closed');
+});
+
+test('cancelling the half-open trial during generation does not block the provider', async () => {
+  const { manager, config, request } = setup(
+    [mock('mock-a', 1, { simulateError: 'transient', simulateErrorCount: 1, latencyMs: 200 })],
+    { circuitBreaker: { failureThreshold: 1, cooldownMs: 0 } }
+  );
+  await manager.generateWithFallback(request(), config);
+  assert.equal(manager.getCircuitBreaker('mock-a').getState(), 'half-open');
+
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 20);
+  const cancelled = await manager.generateWithFallback(request({ signal: controller.signal }), config);
+  assert.equal(cancelled.success, false);
+  assert.equal(cancelled.cancelled, true);
+
+  const next = await manager.generateWithFallback(request(), config);
+  assert.equal(next.success, true, next.error);
+});
+
+test('cancelling the half-open trial during the health probe does not block the provider', async t => {
+  let hang = true;
+  const server = await startServer((req, body, res) => {
+    if (req.url === '/v1/models' && hang) {
+      return; // never answers while hanging
+    }
+    res.writeHead(500);
+    res.end('{}');
+  });
+  t.after(() => server.close());
+
+  const gateway = { name: 'gateway', type: 'openai-compatible', baseUrl: `${server.url}/v1`, priority: 1, enabled: true };
+  const { manager, config, request } = setup([gateway], {
+    healthProbes: true,
+    circuitBreaker: { failureThreshold: 1, cooldownMs: 0 }
+  });
+  manager.getCircuitBreaker('gateway').recordFailure();
+
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 50);
+  const cancelled = await manager.generateWithFallback(request({ signal: controller.signal }), config);
+  assert.equal(cancelled.cancelled, true);
+
+  assert.equal(manager.getCircuitBreaker('gateway').canAttempt(), true, 'trial was released');
+});
+
+test('a provider without an adapter does not claim the half-open trial', async t => {
+  registerProvider({ name: 'adapterless', capabilities: {}, createAdapter: () => undefined });
+  t.after(() => unregisterProvider('adapterless'));
+
+  const { manager, config, request } = setup(
+    [{ name: 'adapterless', priority: 1, enabled: true }],
+    { circuitBreaker: { failureThreshold: 1, cooldownMs: 0 } }
+  );
+  const breaker = manager.getCircuitBreaker('adapterless');
+  breaker.recordFailure();
+
+  const result = await manager.generateWithFallback(request(), config);
+  assert.match(result.error, /No adapter available/);
+  assert.equal(breaker.canAttempt(), true);
+});
+
+test('providers that cannot produce the aspect ratio natively move to the end of the chain', async t => {
+  registerProvider({ name: 'square-only', capabilities: { aspectRatios: ['1:1'], editing: false }, createAdapter: () => new MockAdapter() });
+  t.after(() => unregisterProvider('square-only'));
+
+  const { manager, config, request } = setup([
+    { name: 'square-only', priority: 1, enabled: true },
+    mock('mock-b', 2)
+  ]);
+
+  const wide = await manager.generateWithFallback(request({ aspectRatio: '16:9' }), config);
+  assert.equal(wide.provider, 'mock-b');
+  assert.ok(!wide.fallbackUsed);
+
+  const square = await manager.generateWithFallback(request({ aspectRatio: '2:2' }), config);
+  assert.equal(square.provider, 'square-only');
+
+  const plan = await manager.explainChain(request({ aspectRatio: '16:9' }), config);
+  assert.deepEqual(plan.chain.map(entry => [entry.provider, entry.role]), [['mock-b', 'primary'], ['square-only', 'fallback']]);
+
+  // With no native option the provider is still used, and its output is cropped or padded
+  const lastResort = await manager.generateWithFallback(request({ aspectRatio: '16:9' }), { ...config, providers: [config.providers[0]] });
+  assert.equal(lastResort.success, true, lastResort.error);
+  assert.equal(lastResort.provider, 'square-only');
+});
+
+test('a stalled health probe times out and marks the provider unhealthy', async t => {
+  const server = await startServer(() => undefined); // never answers
+  t.after(() => server.close());
+
+  const gateway = { name: 'gateway', type: 'openai-compatible', baseUrl: `${server.url}/v1`, priority: 1, enabled: true };
+  const { manager } = setup([gateway], { healthProbes: true, probeTimeoutMs: 50 });
+
+  const health = await manager.checkHealth(gateway);
+  assert.equal(health.healthy, false);
+  assert.equal(health.errorClass, 'timeout');
+  assert.match(health.error, /timed out after 50ms/);
+});
+
+test('edits go only to providers with the editing capability', async t => {
+  registerProvider({ name: 'no-edit', capabilities: { editing: false }, createAdapter: () => new MockAdapter() });
+  t.after(() => unregisterProvider('no-edit'));
+
+  const { manager, config, request } = setup([
+    { name: 'no-edit', priority: 1, enabled: true },
+    mock('mock-legacy', 2, { adapter: 'legacy-cli' }),
+    mock('mock-b', 3)
+  ]);
+  const source = path.join(config.repositoryPath, 'source.png');
+  fs.writeFileSync(source, PNG);
+  const edit = extra => request({ prompt: 'add a net', mode: 'edit', sourceImagePath: source, ...extra });
+
+  const result = await manager.generateWithFallback(edit(), config);
+  assert.equal(result.success, true, result.error);
+  assert.equal(result.provider, 'mock-b');
+
+  const plan = await manager.explainChain(edit(), config);
+  assert.deepEqual(plan.skipped.map(s => s.provider).sort(), ['mock-legacy', 'no-edit']);
+
+  const none = await manager.generateWithFallback(edit(), { ...config, providers: config.providers.slice(0, 2) });
+  assert.equal(none.success, false);
+  assert.equal(none.error, 'No enabled provider supports image editing');
+
+  const missing = await manager.generateWithFallback(edit({ maskPath: `${source}.missing` }), config);
+  assert.equal(missing.errorClass, 'invalid-request');
+  assert.match(missing.error, /Mask not found/);
+});
+
+test('output in another format is converted to the format the output path names', async t => {
+  const jpeg = await require('sharp')({ create: { width: 8, height: 8, channels: 3, background: '#336699' } }).jpeg().toBuffer();
+  registerProvider({
+    name: 'jpeg-only',
+    capabilities: { editing: false },
+    createAdapter: () => ({ name: 'jpeg-only', generate: async () => ({ data: jpeg, mimeType: 'image/jpeg', model: 'jpeg-1' }) })
+  });
+  t.after(() => unregisterProvider('jpeg-only'));
+
+  const { manager, config, request } = setup([{ name: 'jpeg-only', priority: 1, enabled: true }]);
+  const result = await manager.generateWithFallback(request(), config);
+  assert.equal(result.success, true, result.error);
+  assert.match(result.path, /\.png$/);
+  assert.equal(result.mimeType, 'image/png');
+  assert.deepEqual(fs.readFileSync(result.path).subarray(0, 8), PNG.subarray(0, 8));
+});
+
+test('cached unhealthy health and safety or invalid-request outcomes leave the breaker alone', async t => {
+  registerProvider({ name: 'keyless', capabilities: { editing: false }, validateCredentials: () => 'missing API key', createAdapter: () => new MockAdapter() });
+  t.after(() => unregisterProvider('keyless'));
+
+  const { manager, config, request } = setup(
+    [{ name: 'keyless', priority: 1, enabled: true }, mock('mock-a', 2)],
+    { circuitBreaker: { failureThreshold: 5, cooldownMs: 60000 } }
+  );
+  const single = name => ({ ...config, defaultProvider: name, providers: config.providers.filter(p => p.name === name) });
+
+  // The first call probes; the second reuses the cached result
+  await manager.generateWithFallback(request(), single('keyless'));
+  await manager.generateWithFallback(request(), single('keyless'));
+  assert.equal(manager.getCircuitBreaker('keyless').getConsecutiveFailures(), 1);
+
+  const breaker = manager.getCircuitBreaker('mock-a');
+  await manager.generateWithFallback(request({ prompt: 'x [mock:transient]' }), single('mock-a'));
+  await manager.generateWithFallback(request({ prompt: 'x [mock:safety]' }), single('mock-a'));
+  await manager.generateWithFallback(request({ prompt: 'x [mock:invalid-request]' }), single('mock-a'));
+  assert.equal(breaker.getConsecutiveFailures(), 1);
+});
@@ -0,0 +1,91 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { RateLimiter } = require('../dist/rate-limiter');
+
+/**
+ * Run `count` callers through the limiter, each holding its slot for `holdMs`
+ * Resolves to the highest number of callers that held a slot at once
+ */
+async function peakConcurrency(limiter, count, holdMs, signal) {
+  let active = 0;
+  let peak = 0;
+  await Promise.all(Array.from({ length: count }, async () => {
+    const release = await limiter.acquire('gemini', signal);
+    active++;
+    peak = Math.max(peak, active);
+    await new Promise(resolve => setTimeout(resolve, holdMs));
+    active--;
+    release();
+  }));
+  return peak;
+}
+
+test('maxConcurrency caps requests in flight and releases let waiters in', async () => {
+  const limiter = new RateLimiter([{ provider: 'gemini', maxConcurrency: 2 }]);
+
+  assert.equal(await peakConcurrency(limiter, 5, 10), 2);
+  assert.equal(limiter.getStatus('gemini').active, 0);
+});
+
+test('requestsPerMinute spaces requests after the burst', async () => {
+  const limiter = new RateLimiter([{ provider: 'gemini', requestsPerMinute: 600, burst: 2 }]);
+  const startedAt = Date.now();
+
+  for (let i = 0; i < 3; i++) {
+    (await limiter.acquire('gemini'))();
+  }
+
+  // Two from the burst, the third waits for a token (one every 100ms)
+  assert.ok(Date.now() - startedAt >= 80, `third request waited ${Date.now() - startedAt}ms`);
+});
+
+test('penalize pauses a provider until the Retry-After has passed', async () => {
+  const limiter = new RateLimiter();
+  limiter.penalize('gemini', 60);
+  assert.ok(limiter.getStatus('gemini').pausedForMs > 0);
+
+  const startedAt = Date.now();
+  (await limiter.acquire('gemini'))();
+  assert.ok(Date.now() - startedAt >= 50);
+
+  // Other providers are not paused
+  const other = Date.now();
+  (await limiter.acquire('openrouter'))();
+  assert.ok(Date.now() - other < 50);
+});
+
+test('maxConcurrency holds when callers pass an AbortSignal', async () => {
+  const limiter = new RateLimiter([{ provider: 'gemini', maxConcurrency: 1 }]);
+  const controller = new AbortController();
+
+  assert.equal(await peakConcurrency(limiter, 4, 10, controller.signal), 1);
+  assert.equal(limiter.getStatus('gemini').active, 0);
+});
+
+test('an aborted waiter gives up its place without taking a slot', async () => {
+  const limiter = new RateLimiter([{ provider: 'gemini', maxConcurrency: 1 }]);
+  const release = await limiter.acquire('gemini');
+
+  const controller = new AbortController();
+  const waiting = limiter.acquire('gemini', controller.signal);
+  controller.abort();
+  await assert.rejects(waiting, { name: 'GenerationAbortedError' });
+
+  release();
+  assert.equal(limiter.getStatus('gemini').active, 0);
+  (await limiter.acquire('gemini'))();
+});
+
+test('hasLimit reports whether a provider has a configured limit', () => {
+  const limiter = new RateLimiter([{ provider: 'gemini', requestsPerMinute: 30 }, { provider: 'openai', burst: 4 }]);
+
+  assert.equal(limiter.hasLimit('gemini'), true);
+  assert.equal(limiter.hasLimit('openai'), false);
+  assert.equal(limiter.hasLimit('mock'), false);
+
+  limiter.configure([{ provider: 'mock', maxConcurrency: 1 }]);
+  assert.equal(limiter.hasLimit('gemini'), false);
+  assert.equal(limiter.hasLimit('mock'), true);
+});
@@ -0,0 +1,73 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { ImageOrchestrator } = require('../dist/orchestrator');
+const { ResultCache } = require('../dist/result-cache');
+const { PNG, mockContext, silentLogger, tempDir } = require('./helpers');
+
+const CACHE = ['resultCache:', '  enabled: true'];
+
+test('an identical request is served from the cache, a changed one is not', async () => {
+  const { context } = mockContext(CACHE.join('\n'));
+  const orchestrator = new ImageOrchestrator(context);
+
+  const first = await orchestrator.generateImage({ prompt: 'a volley', seed: 1 });
+  const second = await orchestrator.generateImage({ prompt: 'a volley', seed: 1 });
+  assert.ok(!first.cached);
+  assert.equal(second.cached, true);
+  assert.equal(second.cost, 0);
+  assert.notEqual(second.path, first.path);
+  assert.ok(fs.existsSync(second.path));
+
+  const otherSeed = await orchestrator.generateImage({ prompt: 'a volley', seed: 2 });
+  assert.ok(!otherSeed.cached);
+
+  const plan = await orchestrator.explain({ prompt: 'a volley', seed: 1 });
+  assert.equal(plan.cached, true);
+
+  const fresh = await orchestrator.generateImage({ prompt: 'a volley', seed: 1, noCache: true });
+  assert.ok(!fresh.cached);
+});
+
+test('images from a fallback provider are not cached under the requested provider', async () => {
+  const { context } = mockContext([
+    '    simulateError: quota',
+    '  - name: mock-b',
+    '    type: mock',
+    '    priority: 1',
+    '    enabled: true',
+    ...CACHE
+  ].join('\n'));
+  const orchestrator = new ImageOrchestrator(context);
+
+  const first = await orchestrator.generateImage({ prompt: 'a smash', seed: 1 });
+  assert.equal(first.provider, 'mock-b');
+
+  const second = await orchestrator.generateImage({ prompt: 'a smash', seed: 1 });
+  assert.ok(!second.cached, 'fallback output was not stored');
+  assert.equal(second.provider, 'mock-b');
+});
+
+test('evicts the least recently used entries beyond the size limit', () => {
+  const dir = tempDir();
+  const image = path.join(dir, 'out.png');
+  fs.writeFileSync(image, PNG);
+  const cache = new ResultCache(dir, { enabled: true, maxSizeMb: (PNG.length * 1.5) / (1024 * 1024) }, silentLogger);
+  const result = { success: true, path: image, provider: 'mock' };
+  const keyA = 'a'.repeat(64);
+  const keyB = 'b'.repeat(64);
+
+  cache.store(keyA, result);
+  assert.equal(cache.has(keyA), true);
+  const entryA = path.join(dir, 'cache', 'results', `${keyA}.json`);
+  fs.writeFileSync(entryA, JSON.stringify({ ...JSON.parse(fs.readFileSync(entryA, 'utf-8')), lastUsedAt: '2026-01-01T00:00:00.000Z' }));
+  cache.store(keyB, result);
+
+  assert.equal(cache.stats().entries, 1);
+  assert.equal(cache.has(keyA), false);
+  assert.ok(cache.restore(keyB, path.join(dir, 'restored.png')).cached);
+  assert.equal(cache.has('not-a-key'), false);
+});